@@ -0,0 +1,163 @@
+import { analyzeDomain } from "../analysis";
+import { Domain } from "../domain";
+import type { Domain as IDomain, Operator } from "../types";
+
+// ── Helper fixtures ───────────────────────────────────────────────────────────
+
+interface S {
+  x: number;
+}
+
+function op(name: string): Operator<S> {
+  return { name, condition: () => true, effect: (s) => s };
+}
+
+function makeDomain(): Domain<S> {
+  return new Domain<S>()
+    .registerOperator(op("Walk"))
+    .registerOperator(op("Grab"))
+    .registerOperator(op("Unused"))
+    .registerMethod("Fetch", { name: "Simple", condition: () => true, subtasks: ["Walk", "Grab"] })
+    .registerMethod("Fetch", { name: "Retry", condition: () => true, subtasks: ["Fetch"] })
+    .registerMethod("Patrol", { name: "Simple", condition: () => true, subtasks: ["Walk", "Patrol"] })
+    .registerMethod("Idle", { name: "Nothing", condition: () => true, subtasks: [] })
+    .registerMethod("Dance", { name: "Spin", condition: () => true, subtasks: ["Twirl", "Walk", "Hop"] });
+}
+
+// ── analyzeDomain ─────────────────────────────────────────────────────────────
+
+describe("analyzeDomain", () => {
+  it("reports a clean domain with empty lists", () => {
+    const domain = new Domain<S>()
+      .registerOperator(op("Walk"))
+      .registerMethod("Go", { name: "ByFoot", condition: () => true, subtasks: ["Walk"] });
+
+    expect(analyzeDomain(domain, ["Go"])).toEqual({
+      unresolvedReferences: [],
+      cycles: [],
+      unreachableOperators: [],
+      unreachableTasks: [],
+      tasksWithoutMethods: [],
+      duplicateMethodNames: [],
+      emptyMethods: [],
+      computedSubtasks: [],
+    });
+  });
+
+  it("lists every unresolved reference with its location", () => {
+    expect(analyzeDomain(makeDomain()).unresolvedReferences).toEqual([
+      { task: "Dance", method: "Spin", subtask: "Twirl", index: 0 },
+      { task: "Dance", method: "Spin", subtask: "Hop", index: 2 },
+    ]);
+  });
+
+  it("reports unresolved goals", () => {
+    const report = analyzeDomain(makeDomain(), ["Fetch", { task: "Fly", args: {} }]);
+
+    expect(report.unresolvedReferences).toContainEqual({ subtask: "Fly", index: 1 });
+  });
+
+  it("reports recursion cycles as paths", () => {
+    const domain: IDomain<S> = {
+      operators: {},
+      compoundTasks: {
+        A: { name: "A", methods: [{ name: "m1", condition: () => true, subtasks: ["B"] }] },
+        B: { name: "B", methods: [{ name: "m2", condition: () => true, subtasks: ["C", "A"] }] },
+        C: { name: "C", methods: [{ name: "m3", condition: () => true, subtasks: ["C"] }] },
+      },
+    };
+
+    expect(analyzeDomain(domain).cycles).toEqual([
+      ["C", "C"],
+      ["A", "B", "A"],
+    ]);
+  });
+
+  it("reports self-recursive tasks of the builder domain", () => {
+    expect(analyzeDomain(makeDomain()).cycles).toEqual([
+      ["Fetch", "Fetch"],
+      ["Patrol", "Patrol"],
+    ]);
+  });
+
+  it("reports operators and compound tasks unreachable from the goals", () => {
+    const report = analyzeDomain(makeDomain(), ["Fetch"]);
+
+    expect(report.unreachableOperators).toEqual(["Unused"]);
+    expect(report.unreachableTasks).toEqual(["Patrol", "Idle", "Dance"]);
+  });
+
+  it("skips reachability without goals", () => {
+    const report = analyzeDomain(makeDomain());
+
+    expect(report.unreachableOperators).toEqual([]);
+    expect(report.unreachableTasks).toEqual([]);
+  });
+
+  it("reports compound tasks without methods", () => {
+    const domain: IDomain<S> = {
+      operators: {},
+      compoundTasks: { Empty: { name: "Empty", methods: [] } },
+    };
+
+    expect(analyzeDomain(domain).tasksWithoutMethods).toEqual(["Empty"]);
+  });
+
+  it("reports duplicate method names and empty subtask lists", () => {
+    const report = analyzeDomain(makeDomain());
+
+    expect(report.duplicateMethodNames).toEqual([
+      {
+        method: "Simple",
+        locations: [
+          { task: "Fetch", index: 0 },
+          { task: "Patrol", index: 0 },
+        ],
+      },
+    ]);
+    expect(report.emptyMethods).toEqual([{ task: "Idle", method: "Nothing" }]);
+  });
+
+  it("reports a method name repeated by the same task at each position", () => {
+    const domain = new Domain<S>()
+      .registerOperator(op("Walk"))
+      .registerMethod("Move", { name: "Go", condition: () => true, subtasks: ["Walk"] })
+      .registerMethod("Move", { name: "Other", condition: () => true, subtasks: ["Walk"] })
+      .registerMethod("Move", { name: "Go", condition: () => true, subtasks: [] });
+
+    expect(analyzeDomain(domain).duplicateMethodNames).toEqual([
+      {
+        method: "Go",
+        locations: [
+          { task: "Move", index: 0 },
+          { task: "Move", index: 2 },
+        ],
+      },
+    ]);
+  });
+
+  it("lists methods with computed subtasks instead of inspecting them", () => {
+    const domain = new Domain<S>()
+      .registerOperator(op("Walk"))
+      .registerMethod("Go", { name: "Dynamic", condition: () => true, subtasks: () => ["Walk"] });
+
+    const report = analyzeDomain(domain, ["Go"]);
+
+    expect(report.computedSubtasks).toEqual([{ task: "Go", method: "Dynamic" }]);
+    expect(report.unreachableOperators).toEqual(["Walk"]);
+  });
+});
+
+// ── Domain.analyze ────────────────────────────────────────────────────────────
+
+describe("Domain.analyze", () => {
+  it("returns the same report as analyzeDomain", () => {
+    const domain = makeDomain();
+
+    expect(domain.analyze(["Fetch"])).toEqual(analyzeDomain(domain, ["Fetch"]));
+  });
+
+  it("does not throw on an invalid domain", () => {
+    expect(() => makeDomain().analyze()).not.toThrow();
+  });
+});
@@ -0,0 +1,261 @@
+import { Domain } from "../domain";
+import { DomainSchemaError } from "../errors";
+import { createPlanner } from "../planner";
+import type { DomainDefinition } from "../types";
+
+// ── Helper fixtures ───────────────────────────────────────────────────────────
+
+interface RobotState {
+  robot: { location: string; battery: number };
+  hasCoffee: boolean;
+}
+
+const coffeeDomain: DomainDefinition = {
+  operators: {
+    MoveTo: {
+      condition: {
+        and: [
+          { ">=": [{ var: "robot.battery" }, 10] },
+          { "!=": [{ var: "robot.location" }, { arg: "room" }] },
+        ],
+      },
+      effect: [
+        { set: "robot.location", value: { arg: "room" } },
+        { increment: "robot.battery", by: -10 },
+      ],
+      cost: 2,
+    },
+    PourCoffee: {
+      condition: { and: [{ "==": [{ var: "robot.location" }, "Kitchen"] }, { not: { var: "hasCoffee" } }] },
+      effect: [{ set: "hasCoffee", value: true }],
+    },
+    Recharge: {
+      effect: [{ set: "robot.battery", value: 100 }],
+    },
+  },
+  compoundTasks: {
+    FetchCoffee: {
+      methods: [
+        {
+          name: "Walk",
+          condition: { ">=": [{ var: "robot.battery" }, 10] },
+          subtasks: [{ task: "MoveTo", args: { room: "Kitchen" } }, "PourCoffee"],
+        },
+        { name: "ChargeFirst", subtasks: ["Recharge", "FetchCoffee"] },
+      ],
+    },
+    GoTo: {
+      methods: [{ name: "Direct", subtasks: [{ task: "MoveTo", args: { room: { arg: "target" } } }] }],
+    },
+  },
+};
+
+const initialState: RobotState = {
+  robot: { location: "Office", battery: 50 },
+  hasCoffee: false,
+};
+
+// ── Domain.fromJSON ───────────────────────────────────────────────────────────
+
+describe("Domain.fromJSON", () => {
+  it("compiles conditions, effects and costs into a plannable domain", () => {
+    const domain = Domain.fromJSON<RobotState>(coffeeDomain);
+
+    const result = createPlanner({ domain, initialState, goals: ["FetchCoffee"] }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.plan.map((op) => op.name)).toEqual(["MoveTo", "PourCoffee"]);
+    expect(result.cost).toBe(3);
+    expect(result.finalState).toEqual({
+      robot: { location: "Kitchen", battery: 40 },
+      hasCoffee: true,
+    });
+  });
+
+  it("never mutates the input state", () => {
+    const domain = Domain.fromJSON<RobotState>(coffeeDomain);
+    const state: RobotState = { robot: { location: "Office", battery: 50 }, hasCoffee: false };
+
+    domain.operators.MoveTo.effect(state, { room: "Kitchen" });
+
+    expect(state).toEqual({ robot: { location: "Office", battery: 50 }, hasCoffee: false });
+  });
+
+  it("backtracks into later methods like a code-built domain", () => {
+    const domain = Domain.fromJSON<RobotState>(coffeeDomain);
+
+    const result = createPlanner({
+      domain,
+      initialState: { ...initialState, robot: { location: "Office", battery: 5 } },
+      goals: ["FetchCoffee"],
+    }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.plan.map((op) => op.name)).toEqual(["Recharge", "MoveTo", "PourCoffee"]);
+  });
+
+  it("evaluates subtask arguments that refer to the method's arguments", () => {
+    const domain = Domain.fromJSON<RobotState>(coffeeDomain);
+
+    const result = createPlanner({
+      domain,
+      initialState,
+      goals: [{ task: "GoTo", args: { target: "Lab" } }],
+    }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.steps[0].args).toEqual({ room: "Lab" });
+    expect(result.finalState.robot.location).toBe("Lab");
+  });
+
+  it("treats missing values as 0 when incrementing and applies effects in order", () => {
+    const domain = Domain.fromJSON({
+      operators: {
+        Count: {
+          effect: [
+            { increment: "stats.count" },
+            { increment: "stats.count", by: { var: "step" } },
+          ],
+        },
+      },
+    });
+
+    expect(domain.operators.Count.effect({ step: 5 }, {})).toEqual({ step: 5, stats: { count: 6 } });
+  });
+
+  it("accepts JSON text", () => {
+    const domain = Domain.fromJSON<RobotState>(JSON.stringify(coffeeDomain));
+
+    expect(Object.keys(domain.operators)).toEqual(["MoveTo", "PourCoffee", "Recharge"]);
+    expect(domain.compoundTasks.FetchCoffee.methods).toHaveLength(2);
+  });
+
+  it("produces a domain that passes validation", () => {
+    expect(() => Domain.fromJSON(coffeeDomain).validate()).not.toThrow();
+  });
+});
+
+// ── Schema validation ─────────────────────────────────────────────────────────
+
+describe("Domain.fromJSON – schema validation", () => {
+  function issuesOf(json: unknown): DomainSchemaError["issues"] {
+    try {
+      Domain.fromJSON(json as DomainDefinition);
+    } catch (err) {
+      if (err instanceof DomainSchemaError) return err.issues;
+      throw err;
+    }
+    return [];
+  }
+
+  it("reports every problem with its path", () => {
+    const issues = issuesOf({
+      operators: {
+        Move: {
+          condition: { ">": [{ var: "battery" }] },
+          effect: [{ set: "", value: 1 }, { assign: "x" }],
+          duration: 3,
+        },
+      },
+      compoundTasks: {
+        Go: { methods: [{ name: "", subtasks: ["Move", 42] }] },
+        Empty: { methods: [] },
+      },
+    });
+
+    expect(issues).toEqual([
+      { path: "operators.Move.duration", message: 'unknown property "duration"' },
+      { path: "operators.Move.condition.>", message: "expected an array of two expressions" },
+      { path: "operators.Move.effect[0].set", message: 'expected a state path such as "robot.location"' },
+      { path: "operators.Move.effect[1]", message: 'expected an effect with "set" or "increment"' },
+      { path: "compoundTasks.Go.methods[0].name", message: "expected a non-empty method name" },
+      {
+        path: "compoundTasks.Go.methods[0].subtasks[1]",
+        message: 'expected a task name or { "task": name, "args": {...} }',
+      },
+      { path: "compoundTasks.Empty.methods", message: "expected a non-empty array of methods" },
+    ]);
+  });
+
+  it("rejects unknown expression operators", () => {
+    expect(issuesOf({ operators: { A: { condition: { xor: [true, false] } } } })).toEqual([
+      { path: "operators.A.condition", message: 'unknown operator "xor"' },
+    ]);
+  });
+
+  it("rejects a negative or non-numeric cost", () => {
+    expect(issuesOf({ operators: { A: { cost: -1 }, B: { cost: "cheap" } } })).toEqual([
+      { path: "operators.A.cost", message: "expected a non-negative number" },
+      { path: "operators.B.cost", message: "expected a number or an expression" },
+    ]);
+  });
+
+  it("rejects a document without operators", () => {
+    expect(issuesOf({ compoundTasks: {} })).toEqual([
+      { path: "operators", message: "expected an object of operators keyed by name" },
+    ]);
+  });
+
+  it("reports invalid JSON text", () => {
+    expect(() => Domain.fromJSON("{ operators: ")).toThrow(DomainSchemaError);
+    expect(() => Domain.fromJSON("{ operators: ")).toThrow(/invalid JSON/);
+  });
+
+  it("lists the issues in the error message", () => {
+    expect(() => Domain.fromJSON({ operators: { A: { effect: {} } } } as never)).toThrow(
+      "operators.A.effect: expected an array of effects"
+    );
+  });
+});
+
+// ── Domain.toDefinition ───────────────────────────────────────────────────────
+
+describe("Domain.toDefinition", () => {
+  it("round-trips a declarative domain", () => {
+    const domain = Domain.fromJSON(coffeeDomain);
+
+    expect(domain.toDefinition()).toEqual(coffeeDomain);
+    expect(JSON.parse(JSON.stringify(domain))).toEqual(coffeeDomain);
+    expect(Domain.fromJSON(domain.toDefinition()).toDefinition()).toEqual(coffeeDomain);
+  });
+
+  it("is not affected by later changes to the source document", () => {
+    const source: DomainDefinition = JSON.parse(JSON.stringify(coffeeDomain));
+    const domain = Domain.fromJSON(source);
+    source.operators.MoveTo.cost = 99;
+
+    expect(domain.toDefinition().operators.MoveTo.cost).toBe(2);
+  });
+
+  it("throws for operators registered in code", () => {
+    const domain = Domain.fromJSON(coffeeDomain).registerOperator({
+      name: "Custom",
+      condition: () => true,
+      effect: (s) => s,
+    });
+
+    expect(() => domain.toDefinition()).toThrow(
+      'Operator "Custom" was not loaded from a declarative'
+    );
+  });
+
+  it("lets JSON.stringify fall back to the plain shape for domains built in code", () => {
+    const domain = Domain.fromJSON(coffeeDomain).registerOperator({
+      name: "Custom",
+      condition: () => true,
+      effect: (s) => s,
+      cost: 3,
+    });
+
+    const json = JSON.parse(JSON.stringify({ domain, goals: ["FetchCoffee"] }));
+
+    expect(json.goals).toEqual(["FetchCoffee"]);
+    expect(json.domain.operators.Custom).toEqual({ name: "Custom", cost: 3 });
+    expect(Object.keys(json.domain.compoundTasks)).toEqual(
+      Object.keys(coffeeDomain.compoundTasks!)
+    );
+  });
+});
@@ -89,6 +89,27 @@ describe("Domain – getOperator", () => {
   });
 });
 
+// ── registerResource ─────────────────────────────────────────────────────────
+
+describe("Domain – registerResource", () => {
+  const battery = {
+    get: (s: RobotState) => s.batteryLevel,
+    set: (s: RobotState, amount: number) => ({ ...s, batteryLevel: amount }),
+  };
+
+  it("exposes the resource in the `resources` record", () => {
+    const domain = new Domain<RobotState>();
+    const result = domain.registerResource("battery", battery);
+
+    expect(result).toBe(domain);
+    expect(domain.resources).toEqual({ battery });
+  });
+
+  it("throws for an empty resource name", () => {
+    expect(() => new Domain<RobotState>().registerResource("", battery)).toThrow(TypeError);
+  });
+});
+
 // ── registerMethod ────────────────────────────────────────────────────────────
 
 describe("Domain – registerMethod", () => {
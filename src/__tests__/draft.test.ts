@@ -0,0 +1,177 @@
+import { types } from "util";
+import { Domain } from "../domain";
+import { deepFreeze, draftEffect, produce } from "../draft";
+import { createPlanner } from "../planner";
+
+// ── Helper fixtures ───────────────────────────────────────────────────────────
+
+interface RobotState {
+  robot: { location: string; battery: number };
+  inventory: string[];
+  map: { rooms: string[] };
+}
+
+function makeState(): RobotState {
+  return {
+    robot: { location: "Office", battery: 50 },
+    inventory: ["key"],
+    map: { rooms: ["Office", "Kitchen"] },
+  };
+}
+
+// ── produce ───────────────────────────────────────────────────────────────────
+
+describe("produce", () => {
+  it("applies mutations to a copy and leaves the base untouched", () => {
+    const base = makeState();
+
+    const next = produce(base, (draft) => {
+      draft.robot.location = "Kitchen";
+      draft.robot.battery -= 10;
+      draft.inventory.push("cup");
+    });
+
+    expect(next).toEqual({
+      robot: { location: "Kitchen", battery: 40 },
+      inventory: ["key", "cup"],
+      map: { rooms: ["Office", "Kitchen"] },
+    });
+    expect(base).toEqual(makeState());
+  });
+
+  it("shares every object that was not changed", () => {
+    const base = makeState();
+
+    const next = produce(base, (draft) => {
+      draft.robot.battery = 0;
+    });
+
+    expect(next.robot).not.toBe(base.robot);
+    expect(next.map).toBe(base.map);
+    expect(next.inventory).toBe(base.inventory);
+  });
+
+  it("returns the base itself when nothing changes", () => {
+    const base = makeState();
+
+    expect(
+      produce(base, (draft) => {
+        draft.robot.location = "Office";
+        void draft.map.rooms.length;
+      })
+    ).toBe(base);
+  });
+
+  it("supports deleting properties and array methods", () => {
+    const base: { tags: Record<string, boolean>; queue: number[] } = {
+      tags: { a: true, b: true },
+      queue: [3, 1, 2],
+    };
+
+    const next = produce(base, (draft) => {
+      delete draft.tags.a;
+      draft.queue.sort();
+      draft.queue.shift();
+    });
+
+    expect(next).toEqual({ tags: { b: true }, queue: [2, 3] });
+    expect(base).toEqual({ tags: { a: true, b: true }, queue: [3, 1, 2] });
+  });
+
+  it("unwraps drafts placed inside new objects", () => {
+    const next = produce(makeState(), (draft) => {
+      draft.map = { rooms: [...draft.map.rooms, "Lab"] };
+      draft.robot = { ...draft.robot, location: "Lab" };
+    });
+
+    expect(next.map.rooms).toEqual(["Office", "Kitchen", "Lab"]);
+    expect(next.robot).toEqual({ location: "Lab", battery: 50 });
+    expect(types.isProxy(next.robot)).toBe(false);
+    expect(types.isProxy(next.map.rooms)).toBe(false);
+  });
+
+  it("works on frozen states", () => {
+    const base = deepFreeze(makeState());
+
+    const next = produce(base, (draft) => {
+      draft.robot.battery = 1;
+    });
+
+    expect(next.robot.battery).toBe(1);
+    expect(next.map).toBe(base.map);
+  });
+
+  it("rejects a base that is not a plain object or array", () => {
+    expect(() => produce(new Map(), () => undefined)).toThrow(TypeError);
+  });
+});
+
+// ── draftEffect and freezeStates ──────────────────────────────────────────────
+
+describe("draftEffect", () => {
+  it("builds an operator effect from a mutating recipe", () => {
+    const moveTo = draftEffect<RobotState>((draft, args) => {
+      draft.robot.location = args.room as string;
+    });
+
+    const base = makeState();
+    const next = moveTo(base, { room: "Kitchen" });
+
+    expect(next.robot.location).toBe("Kitchen");
+    expect(base.robot.location).toBe("Office");
+  });
+});
+
+describe("freezeStates", () => {
+  const mutatingDomain = new Domain<RobotState>()
+    .registerOperator({
+      name: "Drain",
+      condition: () => true,
+      effect: (s) => {
+        s.robot.battery = 0;
+        return s;
+      },
+    })
+    .registerOperator({
+      name: "Charge",
+      condition: () => true,
+      effect: draftEffect((draft) => {
+        draft.robot.battery = 100;
+      }),
+    });
+
+  it("makes in-place mutations throw", () => {
+    const planner = createPlanner({
+      domain: mutatingDomain,
+      initialState: makeState(),
+      goals: ["Drain"],
+      freezeStates: true,
+    });
+
+    expect(() => planner.plan()).toThrow(TypeError);
+  });
+
+  it("freezes the states the planner produces", () => {
+    const result = createPlanner({
+      domain: mutatingDomain,
+      initialState: makeState(),
+      goals: ["Charge"],
+      freezeStates: true,
+    }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.finalState.robot.battery).toBe(100);
+    expect(Object.isFrozen(result.finalState.robot)).toBe(true);
+  });
+
+  it("is off by default", () => {
+    const result = createPlanner({
+      domain: mutatingDomain,
+      initialState: makeState(),
+      goals: ["Drain"],
+    }).plan();
+
+    expect(result.success).toBe(true);
+  });
+});
@@ -0,0 +1,752 @@
+import { createExecutor, createAsyncExecutor } from "../executor";
+import { OperatorTimeoutError } from "../errors";
+import { FactState } from "../facts";
+import type { Domain, ReplanReason } from "../types";
+
+// ── Shared state type ────────────────────────────────────────────────────────
+
+interface RobotState {
+  location: string;
+  hasItem: boolean;
+  batteryLevel: number;
+}
+
+function makeRobotDomain(): Domain<RobotState> {
+  return {
+    operators: {
+      MoveToKitchen: {
+        name: "MoveToKitchen",
+        condition: (s) => s.batteryLevel > 0 && s.location !== "Kitchen",
+        effect: (s) => ({ ...s, location: "Kitchen" }),
+      },
+      PourCoffee: {
+        name: "PourCoffee",
+        condition: (s) => s.location === "Kitchen" && !s.hasItem,
+        effect: (s) => ({ ...s, hasItem: true }),
+      },
+      ReturnToStart: {
+        name: "ReturnToStart",
+        condition: (s) => s.hasItem,
+        effect: (s) => ({ ...s, location: "Start" }),
+      },
+    },
+    compoundTasks: {
+      FetchCoffee: {
+        name: "FetchCoffee",
+        methods: [
+          {
+            name: "AlreadyHolding",
+            condition: (s) => s.hasItem,
+            subtasks: ["ReturnToStart"],
+          },
+          {
+            name: "AlreadyInKitchen",
+            condition: (s) => s.location === "Kitchen",
+            subtasks: ["PourCoffee", "ReturnToStart"],
+          },
+          {
+            name: "StandardFetch",
+            condition: (_s) => true,
+            subtasks: ["MoveToKitchen", "PourCoffee", "ReturnToStart"],
+          },
+        ],
+      },
+    },
+  };
+}
+
+/**
+ * A tiny simulated world: actions mutate `world` exactly as the operator
+ * effects predict unless a test overrides them.
+ */
+function makeWorld(initial: RobotState) {
+  const world = { state: initial };
+  const domain = makeRobotDomain();
+  const actions = {
+    MoveToKitchen: () => {
+      world.state = domain.operators.MoveToKitchen.effect(world.state, {});
+    },
+    PourCoffee: () => {
+      world.state = domain.operators.PourCoffee.effect(world.state, {});
+    },
+    ReturnToStart: () => {
+      world.state = domain.operators.ReturnToStart.effect(world.state, {});
+    },
+  };
+  return { world, domain, actions, perceive: () => world.state };
+}
+
+// ── Happy path ───────────────────────────────────────────────────────────────
+
+describe("createExecutor – happy path", () => {
+  it("plans from the perceived state and runs every operator in order", () => {
+    const { domain, actions, perceive } = makeWorld({
+      location: "Hall",
+      hasItem: false,
+      batteryLevel: 100,
+    });
+
+    const result = createExecutor({ domain, goals: ["FetchCoffee"], perceive, actions }).run();
+
+    expect(result.success).toBe(true);
+    expect(result.replans).toBe(0);
+    expect(result.steps.map((s) => s.operator.name)).toEqual([
+      "MoveToKitchen",
+      "PourCoffee",
+      "ReturnToStart",
+    ]);
+    expect(result.finalState).toEqual({ location: "Start", hasItem: true, batteryLevel: 100 });
+  });
+
+  it("uses the supplied plan instead of planning", () => {
+    const { domain, actions, perceive } = makeWorld({
+      location: "Hall",
+      hasItem: false,
+      batteryLevel: 100,
+    });
+
+    const result = createExecutor({
+      domain,
+      goals: ["FetchCoffee"],
+      plan: [domain.operators.MoveToKitchen],
+      perceive,
+      actions,
+    }).run();
+
+    expect(result.success).toBe(true);
+    expect(result.steps.map((s) => s.operator.name)).toEqual(["MoveToKitchen"]);
+  });
+
+  it("step() runs one operator at a time and returns null until done", () => {
+    const { domain, actions, perceive } = makeWorld({
+      location: "Hall",
+      hasItem: false,
+      batteryLevel: 100,
+    });
+    const executor = createExecutor({ domain, goals: ["FetchCoffee"], perceive, actions });
+
+    expect(executor.step()).toBeNull();
+    expect(executor.step()).toBeNull();
+    const outcome = executor.step();
+    expect(outcome?.success).toBe(true);
+    expect(executor.result).toBe(outcome);
+    // Further calls keep returning the same result.
+    expect(executor.step()).toBe(outcome);
+  });
+
+  it("run() and step() work when detached from the executor", () => {
+    const { domain, actions, perceive } = makeWorld({
+      location: "Hall",
+      hasItem: false,
+      batteryLevel: 100,
+    });
+    const { step, run } = createExecutor({ domain, goals: ["FetchCoffee"], perceive, actions });
+
+    expect(step()).toBeNull();
+    expect(run().success).toBe(true);
+  });
+
+  it("treats operators without an action callback as always succeeding", () => {
+    const domain = makeRobotDomain();
+    const world = { state: { location: "Hall", hasItem: false, batteryLevel: 100 } };
+
+    const result = createExecutor({
+      domain,
+      goals: ["MoveToKitchen"],
+      perceive: () => world.state,
+      isStateEqual: () => true,
+    }).run();
+
+    expect(result.success).toBe(true);
+    expect(result.steps).toHaveLength(1);
+  });
+});
+
+// ── Replanning ───────────────────────────────────────────────────────────────
+
+describe("createExecutor – replanning", () => {
+  it("replans when the observed state diverges from the prediction", () => {
+    const { world, domain, actions, perceive } = makeWorld({
+      location: "Hall",
+      hasItem: false,
+      batteryLevel: 100,
+    });
+    // Someone hands the robot a coffee while it walks to the kitchen.
+    actions.MoveToKitchen = () => {
+      world.state = { ...world.state, location: "Kitchen", hasItem: true };
+    };
+    const reasons: ReplanReason[] = [];
+
+    const result = createExecutor({
+      domain,
+      goals: ["FetchCoffee"],
+      perceive,
+      actions,
+      hooks: { onReplan: (reason) => reasons.push(reason) },
+    }).run();
+
+    expect(result.success).toBe(true);
+    expect(reasons).toEqual(["STATE_DIVERGED"]);
+    expect(result.steps.map((s) => s.operator.name)).toEqual(["MoveToKitchen", "ReturnToStart"]);
+  });
+
+  it("replans when an action callback reports failure", () => {
+    const { world, domain, actions, perceive } = makeWorld({
+      location: "Hall",
+      hasItem: false,
+      batteryLevel: 100,
+    });
+    let attempts = 0;
+    actions.PourCoffee = () => {
+      attempts++;
+      if (attempts === 1) return false;
+      world.state = domain.operators.PourCoffee.effect(world.state, {});
+    };
+    const reasons: ReplanReason[] = [];
+
+    const result = createExecutor({
+      domain,
+      goals: ["FetchCoffee"],
+      perceive,
+      actions: actions as Record<string, () => boolean | void>,
+      hooks: { onReplan: (reason) => reasons.push(reason) },
+    }).run();
+
+    expect(reasons).toEqual(["ACTION_FAILED"]);
+    expect(result.success).toBe(true);
+    // The replan starts in the kitchen, so it skips MoveToKitchen.
+    expect(result.steps.map((s) => s.operator.name)).toEqual([
+      "MoveToKitchen",
+      "PourCoffee",
+      "ReturnToStart",
+    ]);
+  });
+
+  it("detects a failed precondition on the first step of a stale supplied plan", () => {
+    const { domain, actions, perceive } = makeWorld({
+      location: "Kitchen",
+      hasItem: false,
+      batteryLevel: 100,
+    });
+    const reasons: ReplanReason[] = [];
+
+    const result = createExecutor({
+      domain,
+      goals: ["PourCoffee"],
+      plan: [domain.operators.MoveToKitchen, domain.operators.PourCoffee],
+      perceive,
+      actions,
+      hooks: { onReplan: (reason) => reasons.push(reason) },
+    }).run();
+
+    expect(reasons).toEqual(["PRECONDITION_FAILED"]);
+    expect(result.success).toBe(true);
+    expect(result.steps.map((s) => s.operator.name)).toEqual(["PourCoffee"]);
+  });
+
+  it("fails with MAX_REPLANS_EXCEEDED when the world keeps diverging", () => {
+    const domain = makeRobotDomain();
+    const result = createExecutor({
+      domain,
+      goals: ["MoveToKitchen"],
+      // The world never changes, so every step diverges.
+      perceive: () => ({ location: "Hall", hasItem: false, batteryLevel: 100 }),
+      maxReplans: 3,
+    }).run();
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.reason).toBe("MAX_REPLANS_EXCEEDED");
+    expect(result.replans).toBe(3);
+  });
+
+  it("fails with PLANNING_FAILED when the initial state has no plan", () => {
+    const result = createExecutor({
+      domain: makeRobotDomain(),
+      goals: ["MoveToKitchen"],
+      perceive: () => ({ location: "Hall", hasItem: false, batteryLevel: 0 }),
+    }).run();
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.reason).toBe("PLANNING_FAILED");
+    expect(result.planningFailure?.reason).toBe("OPERATOR_PRECONDITION_FAILED");
+    expect(result.steps).toHaveLength(0);
+  });
+});
+
+// ── Parameterized tasks ──────────────────────────────────────────────────────
+
+describe("createExecutor – parameterized tasks", () => {
+  it("passes each step's bound arguments to its action callback", () => {
+    interface S { location: string }
+    const domain: Domain<S> = {
+      operators: {
+        MoveTo: {
+          name: "MoveTo",
+          condition: (s, args) => s.location !== args.room,
+          effect: (s, args) => ({ location: args.room as string }),
+        },
+      },
+      compoundTasks: {},
+    };
+    const world = { state: { location: "Hall" } };
+    const visited: unknown[] = [];
+
+    const result = createExecutor({
+      domain,
+      goals: [
+        { task: "MoveTo", args: { room: "Kitchen" } },
+        { task: "MoveTo", args: { room: "Office" } },
+      ],
+      perceive: () => world.state,
+      actions: {
+        MoveTo: (_s, args) => {
+          visited.push(args.room);
+          world.state = { location: args.room as string };
+        },
+      },
+    }).run();
+
+    expect(result.success).toBe(true);
+    expect(visited).toEqual(["Kitchen", "Office"]);
+    expect(result.steps.map((s) => s.args)).toEqual([{ room: "Kitchen" }, { room: "Office" }]);
+  });
+});
+
+describe("createExecutor – resources", () => {
+  interface S { location: string; battery: number }
+  const domain: Domain<S> = {
+    resources: {
+      battery: { get: (s) => s.battery, set: (s, amount) => ({ ...s, battery: amount }) },
+    },
+    operators: {
+      MoveTo: {
+        name: "MoveTo",
+        consumes: { battery: 30 },
+        condition: (s, args) => s.location !== args.room,
+        effect: (s, args) => ({ ...s, location: args.room as string }),
+      },
+    },
+    compoundTasks: {},
+  };
+  const goals = [{ task: "MoveTo", args: { room: "Kitchen" } }];
+
+  it("predicts the resources each step consumes", () => {
+    const world = { state: { location: "Hall", battery: 50 } };
+
+    const result = createExecutor({
+      domain,
+      goals,
+      perceive: () => world.state,
+      actions: {
+        MoveTo: (s, args) => {
+          world.state = { location: args.room as string, battery: s.battery - 30 };
+        },
+      },
+    }).run();
+
+    expect(result.success).toBe(true);
+    expect(result.steps[0].diverged).toBe(false);
+    expect(result.finalState).toEqual({ location: "Kitchen", battery: 20 });
+  });
+
+  it("replans when the observed state no longer holds enough of a resource", () => {
+    const world = { state: { location: "Hall", battery: 20 } };
+    const reasons: ReplanReason[] = [];
+
+    const result = createExecutor({
+      domain,
+      goals,
+      plan: [{ operator: domain.operators.MoveTo, args: { room: "Kitchen" } }],
+      perceive: () => world.state,
+      hooks: { onReplan: (reason) => reasons.push(reason) },
+    }).run();
+
+    expect(reasons).toEqual(["PRECONDITION_FAILED"]);
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.reason).toBe("PLANNING_FAILED");
+    expect(result.planningFailure?.reason).toBe("RESOURCE_BOUNDS_EXCEEDED");
+  });
+});
+
+// ── Planner options ──────────────────────────────────────────────────────────
+
+describe("createExecutor – planner options", () => {
+  interface Tour { room: string; visited: string[] }
+  const domain: Domain<Tour> = {
+    operators: {
+      Enter: {
+        name: "Enter",
+        condition: (s, args) => s.room !== args.room,
+        effect: (s, args) => ({ room: args.room as string, visited: [...s.visited, s.room] }),
+      },
+    },
+    compoundTasks: {
+      GoToKitchen: {
+        name: "GoToKitchen",
+        methods: [
+          {
+            name: "Direct",
+            condition: () => true,
+            subtasks: [{ task: "Enter", args: { room: "Kitchen" } }],
+          },
+          {
+            name: "ThroughHall",
+            condition: () => true,
+            subtasks: [
+              { task: "Enter", args: { room: "Hall" } },
+              { task: "Enter", args: { room: "Kitchen" } },
+            ],
+          },
+        ],
+      },
+    },
+  };
+
+  it("plans and replans with the given planner options", () => {
+    const world = { state: { room: "Garden", visited: [] as string[] } };
+    let attempts = 0;
+
+    const result = createExecutor({
+      domain,
+      goals: ["GoToKitchen"],
+      perceive: () => world.state,
+      actions: {
+        Enter: (s, args) => {
+          // The hall door is stuck the first time.
+          if (args.room === "Hall" && attempts++ === 0) return false;
+          world.state = domain.operators.Enter.effect(s, args);
+        },
+      },
+      planner: { goalCondition: (s) => s.visited.includes("Hall") },
+    }).run();
+
+    expect(result.success).toBe(true);
+    expect(result.replans).toBe(1);
+    expect(result.finalState).toEqual({ room: "Kitchen", visited: ["Garden", "Hall"] });
+  });
+});
+
+// ── Step records ─────────────────────────────────────────────────────────────
+
+describe("createExecutor – step records", () => {
+  it("records the state before, predicted state and observed state of each step", () => {
+    const { domain, actions, perceive } = makeWorld({
+      location: "Hall",
+      hasItem: false,
+      batteryLevel: 100,
+    });
+    const completed: string[] = [];
+
+    const result = createExecutor({
+      domain,
+      goals: ["MoveToKitchen"],
+      perceive,
+      actions,
+      hooks: { onStepComplete: (name) => completed.push(name) },
+    }).run();
+
+    expect(completed).toEqual(["MoveToKitchen"]);
+    const [step] = result.steps;
+    expect(step.stateBefore.location).toBe("Hall");
+    expect(step.predictedState.location).toBe("Kitchen");
+    expect(step.observedState.location).toBe("Kitchen");
+  });
+});
+
+// ── createAsyncExecutor ──────────────────────────────────────────────────────
+
+/** Wraps each operator of the robot domain with an async `execute`. */
+function makeAsyncDomain(
+  execute?: Partial<Record<string, (s: RobotState, signal: AbortSignal) => Promise<RobotState>>>
+): Domain<RobotState> {
+  const domain = makeRobotDomain();
+  for (const op of Object.values(domain.operators)) {
+    op.execute = execute?.[op.name] ?? (async (s) => op.effect(s, {}));
+  }
+  return domain;
+}
+
+describe("createAsyncExecutor – happy path", () => {
+  it("awaits each operator's execute and returns the real final state", async () => {
+    const domain = makeAsyncDomain();
+
+    const result = await createAsyncExecutor({
+      domain,
+      goals: ["FetchCoffee"],
+      initialState: { location: "Hall", hasItem: false, batteryLevel: 100 },
+    }).run();
+
+    expect(result.success).toBe(true);
+    expect(result.steps.map((s) => s.operator.name)).toEqual([
+      "MoveToKitchen",
+      "PourCoffee",
+      "ReturnToStart",
+    ]);
+    expect(result.steps.every((s) => !s.diverged)).toBe(true);
+    expect(result.finalState.location).toBe("Start");
+  });
+
+  it("simulates operators that have no execute with their effect", async () => {
+    const result = await createAsyncExecutor({
+      domain: makeRobotDomain(),
+      goals: ["MoveToKitchen"],
+      initialState: { location: "Hall", hasItem: false, batteryLevel: 100 },
+    }).run();
+
+    expect(result.success).toBe(true);
+    expect(result.finalState.location).toBe("Kitchen");
+  });
+
+  it("run() works when detached from the executor", async () => {
+    const { run } = createAsyncExecutor({
+      domain: makeAsyncDomain(),
+      goals: ["FetchCoffee"],
+      initialState: { location: "Hall", hasItem: false, batteryLevel: 100 },
+    });
+
+    expect((await run()).success).toBe(true);
+  });
+
+  it("passes an AbortSignal to execute", async () => {
+    let received: AbortSignal | undefined;
+    const domain = makeAsyncDomain({
+      MoveToKitchen: async (s, signal) => {
+        received = signal;
+        return { ...s, location: "Kitchen" };
+      },
+    });
+
+    await createAsyncExecutor({
+      domain,
+      goals: ["MoveToKitchen"],
+      initialState: { location: "Hall", hasItem: false, batteryLevel: 100 },
+    }).run();
+
+    expect(received).toBeDefined();
+    expect(received?.aborted).toBe(false);
+  });
+});
+
+describe("createAsyncExecutor – predicted vs. real state", () => {
+  it("reports diverged steps and replans from the real state", async () => {
+    const domain = makeAsyncDomain({
+      // The robot is handed a coffee on its way to the kitchen.
+      MoveToKitchen: async (s) => ({ ...s, location: "Kitchen", hasItem: true }),
+    });
+    const reasons: ReplanReason[] = [];
+
+    const result = await createAsyncExecutor({
+      domain,
+      goals: ["FetchCoffee"],
+      initialState: { location: "Hall", hasItem: false, batteryLevel: 100 },
+      hooks: { onReplan: (reason) => reasons.push(reason) },
+    }).run();
+
+    expect(reasons).toEqual(["STATE_DIVERGED"]);
+    expect(result.success).toBe(true);
+    const [first] = result.steps;
+    expect(first.diverged).toBe(true);
+    expect(first.predictedState.hasItem).toBe(false);
+    expect(first.observedState.hasItem).toBe(true);
+    expect(result.steps.map((s) => s.operator.name)).toEqual(["MoveToKitchen", "ReturnToStart"]);
+  });
+
+  it("detects divergence inside dates, maps, sets and fact states", async () => {
+    const diverges = async <TState>(predicted: TState, observed: TState) => {
+      const domain: Domain<TState> = {
+        operators: {
+          Act: {
+            name: "Act",
+            condition: () => true,
+            effect: () => predicted,
+            execute: async () => observed,
+          },
+        },
+        compoundTasks: {},
+      };
+      const result = await createAsyncExecutor({
+        domain,
+        goals: ["Act"],
+        initialState: predicted,
+        plan: [domain.operators.Act],
+        maxReplans: 0,
+      }).run();
+      return result.steps[0].diverged;
+    };
+
+    expect(await diverges({ at: new Date(1000) }, { at: new Date(99999) })).toBe(true);
+    expect(await diverges({ at: new Date(1000) }, { at: new Date(1000) })).toBe(false);
+    expect(await diverges(new Map([["r", 1]]), new Map([["r", 2]]))).toBe(true);
+    expect(await diverges(new Set(["a"]), new Set(["b"]))).toBe(true);
+    expect(await diverges(new Set(["a"]), new Set(["a"]))).toBe(false);
+    expect(await diverges<object>([], {})).toBe(true);
+    const at = (place: string) => FactState.of(["at", "r", place]);
+    expect(await diverges(at("x"), at("zzz"))).toBe(true);
+    expect(await diverges(at("x"), at("x"))).toBe(false);
+  });
+
+  it("refreshes the state with perceive before each step when provided", async () => {
+    const world = { state: { location: "Hall", hasItem: false, batteryLevel: 100 } };
+    const domain = makeAsyncDomain({
+      MoveToKitchen: async (s) => {
+        world.state = { ...s, location: "Kitchen" };
+        return world.state;
+      },
+    });
+
+    const result = await createAsyncExecutor({
+      domain,
+      goals: ["MoveToKitchen"],
+      initialState: { location: "Garage", hasItem: false, batteryLevel: 100 },
+      perceive: async () => world.state,
+    }).run();
+
+    expect(result.success).toBe(true);
+    expect(result.steps[0].stateBefore.location).toBe("Hall");
+  });
+});
+
+describe("createAsyncExecutor – failures", () => {
+  it("replans with ACTION_FAILED when execute rejects", async () => {
+    let attempts = 0;
+    const domain = makeAsyncDomain({
+      PourCoffee: async (s) => {
+        attempts++;
+        if (attempts === 1) throw new Error("machine jammed");
+        return { ...s, hasItem: true };
+      },
+    });
+    const reasons: ReplanReason[] = [];
+
+    const result = await createAsyncExecutor({
+      domain,
+      goals: ["FetchCoffee"],
+      initialState: { location: "Hall", hasItem: false, batteryLevel: 100 },
+      hooks: { onReplan: (reason) => reasons.push(reason) },
+    }).run();
+
+    expect(reasons).toEqual(["ACTION_FAILED"]);
+    expect(result.success).toBe(true);
+    expect(result.replans).toBe(1);
+  });
+
+  it("aborts a slow execute with an OperatorTimeoutError and replans with TIMEOUT", async () => {
+    let abortReason: unknown;
+    let attempts = 0;
+    const domain = makeAsyncDomain({
+      MoveToKitchen: (s, signal) => {
+        attempts++;
+        if (attempts > 1) return Promise.resolve({ ...s, location: "Kitchen" });
+        return new Promise((_resolve, reject) => {
+          signal.addEventListener("abort", () => {
+            abortReason = signal.reason;
+            reject(signal.reason);
+          });
+        });
+      },
+    });
+    domain.operators.MoveToKitchen.timeoutMs = 10;
+    const reasons: ReplanReason[] = [];
+
+    const result = await createAsyncExecutor({
+      domain,
+      goals: ["MoveToKitchen"],
+      initialState: { location: "Hall", hasItem: false, batteryLevel: 100 },
+      timeoutMs: 60_000,
+      hooks: { onReplan: (reason) => reasons.push(reason) },
+    }).run();
+
+    expect(abortReason).toBeInstanceOf(OperatorTimeoutError);
+    expect(reasons).toEqual(["TIMEOUT"]);
+    expect(result.success).toBe(true);
+  });
+
+  it("stops with ABORTED when the signal aborts mid-step", async () => {
+    const controller = new AbortController();
+    const domain = makeAsyncDomain({
+      MoveToKitchen: (_s, signal) =>
+        new Promise((_resolve, reject) => {
+          signal.addEventListener("abort", () => reject(signal.reason));
+          controller.abort();
+        }),
+    });
+
+    const result = await createAsyncExecutor({
+      domain,
+      goals: ["FetchCoffee"],
+      initialState: { location: "Hall", hasItem: false, batteryLevel: 100 },
+      signal: controller.signal,
+    }).run();
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.reason).toBe("ABORTED");
+    expect(result.steps).toHaveLength(0);
+  });
+
+  it("stops with ABORTED before running anything when the signal is already aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const execute = jest.fn(async (s: RobotState) => s);
+
+    const result = await createAsyncExecutor({
+      domain: makeAsyncDomain({ MoveToKitchen: execute }),
+      goals: ["MoveToKitchen"],
+      initialState: { location: "Hall", hasItem: false, batteryLevel: 100 },
+      signal: controller.signal,
+    }).run();
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.reason).toBe("ABORTED");
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it("stops with ABORTED when the signal aborts while perceiving", async () => {
+    const controller = new AbortController();
+    const execute = jest.fn(async (s: RobotState) => ({ ...s, location: "Kitchen" }));
+    const state = { location: "Hall", hasItem: false, batteryLevel: 100 };
+
+    const result = await createAsyncExecutor({
+      domain: makeAsyncDomain({ MoveToKitchen: execute }),
+      goals: ["MoveToKitchen"],
+      initialState: state,
+      perceive: async () => {
+        controller.abort();
+        return state;
+      },
+      signal: controller.signal,
+    }).run();
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.reason).toBe("ABORTED");
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it("hands execute an aborted signal when the run was aborted just before", async () => {
+    const controller = new AbortController();
+    let received: AbortSignal | undefined;
+    const domain = makeAsyncDomain({
+      // Never settles on its own.
+      MoveToKitchen: (_s, signal) => {
+        received = signal;
+        return new Promise(() => undefined);
+      },
+    });
+
+    const result = await createAsyncExecutor({
+      domain,
+      goals: ["MoveToKitchen"],
+      initialState: { location: "Hall", hasItem: false, batteryLevel: 100 },
+      signal: controller.signal,
+      hooks: { onStepStart: () => controller.abort() },
+    }).run();
+
+    expect(received?.aborted).toBe(true);
+    expect(result.success === false && result.reason).toBe("ABORTED");
+  });
+});
@@ -0,0 +1,156 @@
+import { Domain } from "../domain";
+import { FactState, factCondition, stripsOperator } from "../facts";
+import { createPlanner } from "../planner";
+
+// ── Helper fixtures ───────────────────────────────────────────────────────────
+
+const roads = FactState.of(
+  ["road", "a", "b"],
+  ["road", "b", "c"],
+  ["road", "a", "c"],
+  ["at", "truck", "a"]
+);
+
+const drive = stripsOperator({
+  name: "Drive",
+  precondition: [
+    ["at", "?truck", "?from"],
+    ["road", "?from", "?to"],
+  ],
+  delete: [["at", "?truck", "?from"]],
+  add: [["at", "?truck", "?to"]],
+  cost: 2,
+});
+
+// ── FactState ─────────────────────────────────────────────────────────────────
+
+describe("FactState", () => {
+  it("adds and removes facts without changing the original", () => {
+    const moved = roads.remove("at", "truck", "a").add("at", "truck", "b");
+
+    expect(roads.has("at", "truck", "a")).toBe(true);
+    expect(moved.has("at", "truck", "a")).toBe(false);
+    expect(moved.has("at", "truck", "b")).toBe(true);
+    expect(moved.size).toBe(roads.size);
+  });
+
+  it("returns the same instance when nothing changes", () => {
+    expect(roads.add("road", "a", "b")).toBe(roads);
+    expect(roads.remove("road", "c", "a")).toBe(roads);
+    expect(roads.apply({})).toBe(roads);
+  });
+
+  it("applies deletes before adds", () => {
+    const state = FactState.of(["lit"]).apply({ delete: [["lit"]], add: [["lit"]] });
+
+    expect(state.has("lit")).toBe(true);
+    expect(state.size).toBe(1);
+  });
+
+  it("lists the facts of one predicate or all of them", () => {
+    expect([...roads.facts("at")]).toEqual([["at", "truck", "a"]]);
+    expect([...roads]).toHaveLength(4);
+    expect(FactState.empty.size).toBe(0);
+  });
+
+  it("matches patterns with variables", () => {
+    expect([...roads.match(["road", "a", "?to"])]).toEqual([{ to: "b" }, { to: "c" }]);
+    expect([...roads.match(["road", "?x", "?x"])]).toEqual([]);
+    expect([...roads.match(["road", "?from", "c"], { from: "b" })]).toEqual([{ from: "b" }]);
+  });
+
+  it("joins several patterns into one query", () => {
+    const twoHops = roads.matchAll([
+      ["road", "?x", "?y"],
+      ["road", "?y", "?z"],
+    ]);
+
+    expect([...twoHops]).toEqual([{ x: "a", y: "b", z: "c" }]);
+  });
+
+  it("hashes structurally, whatever the order of insertion", () => {
+    const a = FactState.of(["p", "1"], ["q", "2"]);
+    const b = FactState.empty.add("q", "2").add("p", "1");
+
+    expect(a.hash()).toBe(b.hash());
+    expect(a.equals(b)).toBe(true);
+    expect(a.equals(b.add("r"))).toBe(false);
+  });
+
+  it("keeps arguments that contain spaces distinct", () => {
+    const state = FactState.of(["name", "New York"]);
+
+    expect(state.has("name", "New", "York")).toBe(false);
+    expect(state.has("name", "New York")).toBe(true);
+  });
+
+  it("serializes to a sorted list of facts", () => {
+    expect(JSON.stringify(FactState.of(["b"], ["a", "x"]))).toBe('[["a","x"],["b"]]');
+  });
+});
+
+// ── STRIPS helpers ────────────────────────────────────────────────────────────
+
+describe("stripsOperator", () => {
+  it("checks preconditions and applies effects under the task arguments", () => {
+    const args = { truck: "truck", from: "a", to: "b" };
+
+    expect(drive.condition(roads, args)).toBe(true);
+    expect(drive.condition(roads, { ...args, from: "b" })).toBe(false);
+    expect(drive.effect(roads, args).has("at", "truck", "b")).toBe(true);
+    expect(drive.cost).toBe(2);
+  });
+
+  it("supports negative preconditions", () => {
+    const lightOn = stripsOperator({
+      name: "LightOn",
+      absent: [["on", "?lamp"]],
+      add: [["on", "?lamp"]],
+    });
+
+    expect(lightOn.condition(FactState.empty, { lamp: "l1" })).toBe(true);
+    expect(lightOn.condition(FactState.of(["on", "l1"]), { lamp: "l1" })).toBe(false);
+  });
+
+  it("rejects effects with unbound variables", () => {
+    expect(() => drive.effect(roads, { truck: "truck", from: "a" })).toThrow(
+      "Effect fact (at ?truck ?to) has an unbound variable"
+    );
+  });
+
+  it("treats facts with unbound variables as not holding", () => {
+    expect(factCondition([["at", "?truck", "a"]])(roads, {})).toBe(false);
+  });
+
+  it("plans with method bindings from pattern queries and state hashing", () => {
+    const domain = new Domain<FactState>()
+      .registerOperator(drive)
+      .registerMethod("GoTo", {
+        name: "Arrived",
+        condition: factCondition([["at", "?truck", "?dest"]]),
+        subtasks: [],
+      })
+      .registerMethod("GoTo", {
+        name: "Hop",
+        bindings: (state, args) =>
+          state.matchAll([["at", "?truck", "?from"], ["road", "?from", "?to"]], args),
+        condition: () => true,
+        subtasks: (_s, args) => [
+          { task: "Drive", args },
+          { task: "GoTo", args: { truck: args.truck, dest: args.dest } },
+        ],
+      });
+
+    const result = createPlanner({
+      domain,
+      initialState: roads,
+      goals: [{ task: "GoTo", args: { truck: "truck", dest: "c" } }],
+      stateHash: (state) => state.hash(),
+    }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.steps.map((step) => step.args.to)).toEqual(["b", "c"]);
+    expect(result.finalState.has("at", "truck", "c")).toBe(true);
+  });
+});
@@ -0,0 +1,228 @@
+import { HddlParseError } from "../errors";
+import { parseHddl } from "../hddl";
+import { createPlanner } from "../planner";
+
+// ── Helper fixtures ───────────────────────────────────────────────────────────
+
+const transportDomain = `
+; A small transport domain in the style of the IPC 2020 HTN track.
+(define (domain transport)
+  (:requirements :negative-preconditions :hierarchy :typing :action-costs)
+  (:types
+    location target locatable - object
+    vehicle package - locatable)
+  (:predicates
+    (road ?l1 ?l2 - location)
+    (at ?x - locatable ?l - location)
+    (in ?p - package ?v - vehicle))
+  (:functions (total-cost) - number)
+
+  (:task deliver :parameters (?p - package ?l - location))
+  (:task get-to :parameters (?v - vehicle ?l - location))
+
+  (:method m-deliver
+    :parameters (?p - package ?l1 ?l2 - location ?v - vehicle)
+    :task (deliver ?p ?l2)
+    :precondition (and (at ?p ?l1) (at ?v ?l1))
+    :subtasks (and
+      (t1 (pick-up ?v ?l1 ?p))
+      (t2 (get-to ?v ?l2))
+      (t3 (drop ?v ?l2 ?p)))
+    :ordering (and (< t1 t2) (< t2 t3)))
+
+  (:method m-already-there
+    :parameters (?v - vehicle ?l - location)
+    :task (get-to ?v ?l)
+    :precondition (at ?v ?l)
+    :ordered-subtasks ())
+
+  (:method m-drive
+    :parameters (?v - vehicle ?l1 ?l2 - location)
+    :task (get-to ?v ?l2)
+    :precondition (and (at ?v ?l1) (road ?l1 ?l2))
+    :ordered-subtasks (drive ?v ?l1 ?l2))
+
+  (:action drive
+    :parameters (?v - vehicle ?l1 ?l2 - location)
+    :precondition (and (at ?v ?l1) (road ?l1 ?l2))
+    :effect (and (not (at ?v ?l1)) (at ?v ?l2) (increase (total-cost) 3)))
+
+  (:action pick-up
+    :parameters (?v - vehicle ?l - location ?p - package)
+    :precondition (and (at ?v ?l) (at ?p ?l))
+    :effect (and (not (at ?p ?l)) (in ?p ?v)))
+
+  (:action drop
+    :parameters (?v - vehicle ?l - location ?p - package)
+    :precondition (and (at ?v ?l) (in ?p ?v))
+    :effect (and (not (in ?p ?v)) (at ?p ?l))))
+`;
+
+const transportProblem = `
+(define (problem deliver-one)
+  (:domain transport)
+  (:objects
+    city-a city-b - location
+    truck-0 - vehicle
+    package-0 - package)
+  (:htn
+    :parameters ()
+    :ordered-subtasks (and (task0 (deliver package-0 city-b))))
+  (:init
+    (road city-a city-b)
+    (road city-b city-a)
+    (at truck-0 city-a)
+    (at package-0 city-a)
+    (= (total-cost) 0))
+  (:goal (at package-0 city-b)))
+`;
+
+// ── parseHddl ─────────────────────────────────────────────────────────────────
+
+describe("parseHddl", () => {
+  it("reads the names, objects, initial facts and task network", () => {
+    const problem = parseHddl(transportDomain, transportProblem);
+
+    expect(problem.domainName).toBe("transport");
+    expect(problem.problemName).toBe("deliver-one");
+    expect(problem.objects).toEqual({
+      location: ["city-a", "city-b"],
+      vehicle: ["truck-0"],
+      package: ["package-0"],
+    });
+    expect(problem.initialState.toJSON()).toEqual([
+      ["at", "package-0", "city-a"],
+      ["at", "truck-0", "city-a"],
+      ["road", "city-a", "city-b"],
+      ["road", "city-b", "city-a"],
+    ]);
+    expect(problem.goals).toEqual([{ task: "deliver", args: { p: "package-0", l: "city-b" } }]);
+  });
+
+  it("produces a domain the planner can solve", () => {
+    const { domain, initialState, goals, goalCondition } = parseHddl(
+      transportDomain,
+      transportProblem
+    );
+
+    const result = createPlanner({ domain, initialState, goals, goalCondition }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.steps.map((step) => [step.operator.name, step.args])).toEqual([
+      ["pick-up", { v: "truck-0", l: "city-a", p: "package-0" }],
+      ["drive", { v: "truck-0", l1: "city-a", l2: "city-b" }],
+      ["drop", { v: "truck-0", l: "city-b", p: "package-0" }],
+    ]);
+    expect(result.cost).toBe(5);
+    expect(result.finalState.has("at", "package-0", "city-b")).toBe(true);
+    expect(goalCondition!(initialState)).toBe(false);
+    expect(goalCondition!(result.finalState)).toBe(true);
+  });
+
+  it("binds method variables from the task arguments and facts", () => {
+    const { domain, initialState } = parseHddl(transportDomain, transportProblem);
+
+    const result = createPlanner({
+      domain,
+      initialState,
+      goals: [{ task: "get-to", args: { v: "truck-0", l: "city-a" } }],
+    }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.plan).toEqual([]);
+    expect(result.tree[0]).toMatchObject({
+      method: "m-already-there",
+      binding: { v: "truck-0", l: "city-a" },
+    });
+  });
+
+  it("supports quantifiers and conditional effects", () => {
+    const domain = `
+      (define (domain lights)
+        (:types room)
+        (:predicates (on ?r - room) (wired ?r - room))
+        (:task light-all)
+        (:method m-switch
+          :parameters ()
+          :task (light-all)
+          :precondition (exists (?r - room) (not (on ?r)))
+          :ordered-subtasks (flip))
+        (:method m-done
+          :parameters ()
+          :task (light-all)
+          :precondition (forall (?r - room) (on ?r))
+          :ordered-subtasks ())
+        (:action flip
+          :parameters ()
+          :effect (forall (?r - room) (when (wired ?r) (on ?r)))))`;
+    const problem = `
+      (define (problem two-rooms)
+        (:domain lights)
+        (:objects hall kitchen - room)
+        (:htn :ordered-tasks (light-all))
+        (:init (wired hall) (wired kitchen)))`;
+
+    const { domain: lights, initialState, goals } = parseHddl(domain, problem);
+    const result = createPlanner({ domain: lights, initialState, goals }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.plan.map((op) => op.name)).toEqual(["flip"]);
+    expect(result.finalState.toJSON()).toEqual([
+      ["on", "hall"],
+      ["on", "kitchen"],
+      ["wired", "hall"],
+      ["wired", "kitchen"],
+    ]);
+  });
+
+  it("is case-insensitive and ignores comments", () => {
+    const domain = "(DEFINE (DOMAIN d) ; comment\n (:action Noop :parameters ()))";
+    const problem = "(define (problem p) (:domain d) (:htn :tasks (NOOP)))";
+
+    expect(parseHddl(domain, problem).goals).toEqual([{ task: "noop", args: {} }]);
+  });
+
+  it("reports the position of syntax errors", () => {
+    expect(() => parseHddl("(define (domain d)\n  (:action a", "")).toThrow(HddlParseError);
+    try {
+      parseHddl(transportDomain, "(define (problem p)\n  (:htn :tasks (fly truck-0)))");
+    } catch (err) {
+      expect(err).toBeInstanceOf(HddlParseError);
+      expect((err as HddlParseError).line).toBe(2);
+      expect((err as HddlParseError).message).toBe(
+        'HDDL parse error at line 2, column 16: unknown task "fly"'
+      );
+    }
+    expect.assertions(4);
+  });
+
+  it("keeps the ordering constraints of partially ordered networks", () => {
+    const problem = `
+      (define (problem p) (:domain transport)
+        (:objects city-a city-b - location truck-0 - vehicle package-0 - package)
+        (:htn :subtasks (and (a (get-to truck-0 city-b)) (b (deliver package-0 city-b))))
+        (:init (road city-a city-b) (at truck-0 city-a) (at package-0 city-a)))`;
+
+    const { domain, initialState, goals, goalOrdering } = parseHddl(transportDomain, problem);
+    const [deliver] = domain.compoundTasks.deliver.methods;
+    const result = createPlanner({ domain, initialState, goals, goalOrdering }).plan();
+
+    expect(goalOrdering).toEqual([]);
+    expect(deliver.ordering).toBeUndefined();
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.plan.map((op) => op.name)).toEqual(["pick-up", "drive", "drop"]);
+  });
+
+  it("rejects cyclic ordering constraints", () => {
+    const problem = `
+      (define (problem p) (:domain transport)
+        (:htn :subtasks (and (a (get-to truck-0 city-a)) (b (get-to truck-0 city-b)))
+              :ordering (and (< a b) (< b a))))`;
+
+    expect(() => parseHddl(transportDomain, problem)).toThrow("ordering constraints are cyclic");
+  });
+});
@@ -164,6 +164,68 @@ describe("PlannerHooks – onBacktrack", () => {
   });
 });
 
+// ── PlannerHooks – per-binding tracing ────────────────────────────────────────
+
+describe("PlannerHooks – method bindings", () => {
+  it("emits onMethodTry and onBacktrack once per binding with the binding", () => {
+    interface S { blocked: string[] }
+    const tried: Array<unknown> = [];
+    const backtracked: Array<unknown> = [];
+
+    const domain: IDomain<S> = {
+      operators: {
+        Go: {
+          name: "Go",
+          condition: (s, args) => !s.blocked.includes(args.door as string),
+          effect: (s) => s,
+        },
+      },
+      compoundTasks: {
+        Leave: {
+          name: "Leave",
+          methods: [
+            {
+              name: "ThroughDoor",
+              bindings: () => [{ door: "north" }, { door: "south" }],
+              condition: () => true,
+              subtasks: (_s, args) => [{ task: "Go", args }],
+            },
+          ],
+        },
+      },
+    };
+
+    const result = createPlanner({
+      domain,
+      initialState: { blocked: ["north"] },
+      goals: ["Leave"],
+      hooks: {
+        onMethodTry: (_task, method, _depth, binding) => tried.push([method, binding]),
+        onBacktrack: (_task, method, _depth, binding) => backtracked.push([method, binding]),
+      },
+    }).plan();
+
+    expect(result.success).toBe(true);
+    expect(tried).toEqual([
+      ["ThroughDoor", { door: "north" }],
+      ["ThroughDoor", { door: "south" }],
+    ]);
+    expect(backtracked).toEqual([["ThroughDoor", { door: "north" }]]);
+  });
+
+  it("passes an undefined binding for methods without bindings", () => {
+    const bindings: unknown[] = [];
+    createPlanner({
+      domain: makeRobotDomain(),
+      initialState: { location: "Hall", hasItem: false, batteryLevel: 100 },
+      goals: ["FetchCoffee"],
+      hooks: { onMethodTry: (_task, _method, _depth, binding) => bindings.push(binding) },
+    }).plan();
+
+    expect(bindings).toEqual([undefined]);
+  });
+});
+
 // ── PlannerHooks – onOperatorApply ────────────────────────────────────────────
 
 describe("PlannerHooks – onOperatorApply", () => {
@@ -319,10 +381,92 @@ describe("Domain.validate()", () => {
     expect(caught?.unresolvedTask).toBe("MissingOp");
   });
 
+  it("resolves TaskCall references by task name", () => {
+    const domain = new Domain<RobotState>()
+      .registerOperator({
+        name: "MoveTo",
+        condition: () => true,
+        effect: (s, args) => ({ ...s, location: args.room as string }),
+      })
+      .registerMethod("FetchCoffee", {
+        name: "StandardFetch",
+        condition: () => true,
+        subtasks: [{ task: "MoveTo", args: { room: "Kitchen" } }],
+      });
+
+    expect(() => domain.validate()).not.toThrow();
+  });
+
+  it("reports an unregistered TaskCall reference", () => {
+    const domain = new Domain<RobotState>().registerMethod("FetchCoffee", {
+      name: "StandardFetch",
+      condition: () => true,
+      subtasks: [{ task: "MoveTo", args: { room: "Kitchen" } }],
+    });
+
+    expect(() => domain.validate()).toThrow(DomainValidationError);
+  });
+
+  it("skips methods whose subtasks are computed at planning time", () => {
+    const domain = new Domain<RobotState>().registerMethod("FetchCoffee", {
+      name: "Dynamic",
+      condition: () => true,
+      subtasks: () => ["NotYetKnown"],
+    });
+
+    expect(() => domain.validate()).not.toThrow();
+  });
+
   it("passes on an empty domain (no operators or methods)", () => {
     const domain = new Domain<RobotState>();
     expect(() => domain.validate()).not.toThrow();
   });
+
+  it("collects every unresolved reference with its location and suggestions", () => {
+    const domain = new Domain<RobotState>()
+      .registerOperator({ name: "PourCoffee", condition: () => true, effect: (s) => s })
+      .registerOperator({ name: "MoveToKitchen", condition: () => true, effect: (s) => s })
+      .registerMethod("FetchCoffee", {
+        name: "StandardFetch",
+        condition: () => true,
+        subtasks: ["MoveToKitchen", "PourCofee", "Celebrate"],
+      })
+      .registerMethod("Breakfast", {
+        name: "Morning",
+        condition: () => true,
+        subtasks: ["fetchcoffee"],
+      });
+
+    let caught: DomainValidationError | undefined;
+    try {
+      domain.validate();
+    } catch (err) {
+      caught = err as DomainValidationError;
+    }
+
+    expect(caught?.unresolvedTask).toBe("PourCofee");
+    expect(caught?.issues).toEqual([
+      {
+        task: "FetchCoffee",
+        method: "StandardFetch",
+        subtask: "PourCofee",
+        index: 1,
+        suggestions: ["PourCoffee"],
+      },
+      { task: "FetchCoffee", method: "StandardFetch", subtask: "Celebrate", index: 2, suggestions: [] },
+      {
+        task: "Breakfast",
+        method: "Morning",
+        subtask: "fetchcoffee",
+        index: 0,
+        suggestions: ["FetchCoffee"],
+      },
+    ]);
+    expect(caught?.message).toContain("3 unresolved references");
+    expect(caught?.message).toContain(
+      'FetchCoffee/StandardFetch subtasks[1]: "PourCofee" is not registered (did you mean "PourCoffee"?)'
+    );
+  });
 });
 
 // ── Error classes – exported from errors.ts ───────────────────────────────────
@@ -362,4 +506,8 @@ describe("DomainValidationError", () => {
     const err = new DomainValidationError("MissingTask");
     expect(err.message).toContain("MissingTask");
   });
+
+  it("has no issues unless they are given", () => {
+    expect(new DomainValidationError("TaskX").issues).toEqual([]);
+  });
 });
@@ -0,0 +1,195 @@
+import { Domain } from "../domain";
+import { buildPlanGraph, planLayers, schedulePlan } from "../parallel";
+import { createPlanner } from "../planner";
+import type { Operator, PlanStep } from "../types";
+
+// ── Helper fixtures ───────────────────────────────────────────────────────────
+
+interface TwoArmState {
+  base: string;
+  arms: Record<string, string | null>;
+  items: Record<string, string>;
+}
+
+const drive: Operator<TwoArmState> = {
+  name: "Drive",
+  reads: ["base"],
+  writes: ["base"],
+  condition: (s, args) => s.base !== args.to,
+  effect: (s, args) => ({ ...s, base: args.to as string }),
+};
+
+const wave: Operator<TwoArmState> = {
+  name: "Wave",
+  writes: (args) => [`arm.${args.arm}`],
+  condition: () => true,
+  effect: (s) => s,
+};
+
+const pick: Operator<TwoArmState> = {
+  name: "Pick",
+  reads: (args) => ["base", `arm.${args.arm}`, `item.${args.item}`],
+  writes: (args) => [`arm.${args.arm}`, `item.${args.item}`],
+  condition: (s, args) =>
+    s.arms[args.arm as string] === null && s.items[args.item as string] === s.base,
+  effect: (s, args) => ({
+    ...s,
+    arms: { ...s.arms, [args.arm as string]: args.item as string },
+    items: { ...s.items, [args.item as string]: `arm.${args.arm}` },
+  }),
+};
+
+const log: Operator<TwoArmState> = { name: "Log", condition: () => true, effect: (s) => s };
+
+function step(operator: Operator<TwoArmState>, args = {}): PlanStep<TwoArmState> {
+  return { operator, args };
+}
+
+/** Wave both arms and drive to the kitchen, then pick up a cup with each arm. */
+const servePlan = [
+  step(wave, { arm: "left" }),
+  step(wave, { arm: "right" }),
+  step(drive, { to: "kitchen" }),
+  step(pick, { arm: "left", item: "cup" }),
+  step(pick, { arm: "right", item: "mug" }),
+];
+
+// ── buildPlanGraph ────────────────────────────────────────────────────────────
+
+describe("buildPlanGraph", () => {
+  it("links every read to the step that last wrote the key", () => {
+    const graph = buildPlanGraph(servePlan);
+
+    expect(graph.steps).toBe(servePlan);
+    expect(graph.dependencies).toEqual([
+      { from: 2, to: 3, kind: "causal", key: "base" },
+      { from: 0, to: 3, kind: "causal", key: "arm.left" },
+      { from: 2, to: 4, kind: "causal", key: "base" },
+      { from: 1, to: 4, kind: "causal", key: "arm.right" },
+    ]);
+    expect(graph.predecessors).toEqual([[], [], [], [0, 2], [1, 2]]);
+  });
+
+  it("orders a write after the reads and writes it would disturb", () => {
+    const graph = buildPlanGraph([
+      step(drive, { to: "kitchen" }),
+      step(pick, { arm: "left", item: "cup" }),
+      step(drive, { to: "hall" }),
+      step(wave, { arm: "right" }),
+      step(wave, { arm: "right" }),
+    ]);
+
+    expect(graph.dependencies.filter((d) => d.kind === "threat")).toEqual([
+      { from: 1, to: 2, kind: "threat", key: "base" },
+      { from: 3, to: 4, kind: "threat", key: "arm.right" },
+    ]);
+    expect(graph.predecessors[2]).toEqual([0, 1]);
+  });
+
+  it("treats a step that declares no keys as touching the whole state", () => {
+    const graph = buildPlanGraph([
+      step(wave, { arm: "left" }),
+      step(log),
+      step(wave, { arm: "right" }),
+      step(log),
+    ]);
+
+    expect(graph.dependencies).toEqual([
+      { from: 0, to: 1, kind: "causal", key: "*" },
+      { from: 1, to: 2, kind: "threat", key: "arm.right" },
+      { from: 1, to: 3, kind: "causal", key: "*" },
+      { from: 2, to: 3, kind: "causal", key: "*" },
+    ]);
+  });
+
+  it("reaches the planner's final state in any order the graph allows", () => {
+    const domain = new Domain<TwoArmState>()
+      .registerOperator(drive)
+      .registerOperator(wave)
+      .registerOperator(pick)
+      .registerMethod("Serve", {
+        name: "BothArms",
+        condition: () => true,
+        subtasks: servePlan.map(({ operator, args }) => ({ task: operator.name, args })),
+      });
+    const initialState: TwoArmState = {
+      base: "hall",
+      arms: { left: null, right: null },
+      items: { cup: "kitchen", mug: "kitchen" },
+    };
+
+    const result = createPlanner({ domain, initialState, goals: ["Serve"] }).plan();
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    const layers = planLayers(buildPlanGraph(result.steps));
+    const reversed = layers.flatMap((layer) => [...layer].reverse());
+    const finalState = reversed.reduce((state, { operator, args }) => {
+      expect(operator.condition(state, args)).toBe(true);
+      return operator.effect(state, args);
+    }, initialState);
+    expect(finalState).toEqual(result.finalState);
+  });
+});
+
+// ── planLayers and schedulePlan ───────────────────────────────────────────────
+
+describe("planLayers", () => {
+  it("places every step in the earliest layer its dependencies allow", () => {
+    const layers = planLayers(buildPlanGraph(servePlan));
+
+    expect(layers.map((layer) => layer.map((s) => s.operator.name))).toEqual([
+      ["Wave", "Wave", "Drive"],
+      ["Pick", "Pick"],
+    ]);
+    expect(planLayers(buildPlanGraph([]))).toEqual([]);
+  });
+});
+
+describe("schedulePlan", () => {
+  const durations: Record<string, number> = { Drive: 5, Wave: 1, Pick: 2 };
+
+  it("starts each step once the steps it depends on have ended", () => {
+    const schedule = schedulePlan(buildPlanGraph(servePlan), {
+      duration: (s) => durations[s.operator.name],
+    });
+
+    expect(schedule.steps.map(({ index, start, end }) => [index, start, end])).toEqual([
+      [0, 0, 1],
+      [1, 0, 1],
+      [2, 0, 5],
+      [3, 5, 7],
+      [4, 5, 7],
+    ]);
+    expect(schedule.makespan).toBe(7);
+    expect(schedule.steps[3].operator).toBe(pick);
+  });
+
+  it("gives steps without known times a duration of 1 by default", () => {
+    const schedule = schedulePlan(buildPlanGraph(servePlan));
+
+    expect(schedule.makespan).toBe(2);
+    expect(schedulePlan(buildPlanGraph([])).makespan).toBe(0);
+  });
+
+  it("defaults to the simulated times of a found plan, else to constant durations", () => {
+    const timed = [
+      { ...step(wave, { arm: "left" }), start: 0, end: 1 },
+      { ...step(drive, { to: "kitchen" }), start: 1, end: 6 },
+      { ...step(pick, { arm: "left", item: "cup" }), start: 6, end: 8 },
+    ];
+    const constant = [
+      step({ ...drive, duration: 5 }, { to: "kitchen" }),
+      step(wave, { arm: "left" }),
+    ];
+
+    expect(schedulePlan(buildPlanGraph(timed)).makespan).toBe(7);
+    expect(schedulePlan(buildPlanGraph(constant)).makespan).toBe(5);
+  });
+
+  it("rejects negative durations", () => {
+    expect(() => schedulePlan(buildPlanGraph(servePlan), { duration: () => -1 })).toThrow(
+      RangeError
+    );
+  });
+});
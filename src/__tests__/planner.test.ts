@@ -1,5 +1,5 @@
-import { createPlanner, PlannerMaxDepthError } from "../planner";
-import type { Domain, Operator } from "../types";
+import { createPlanner } from "../planner";
+import type { Domain, Operator, PlanningResult } from "../types";
 
 // ── Shared domain types ──────────────────────────────────────────────────────
 
@@ -428,7 +428,7 @@ describe("createPlanner – output immutability", () => {
 // ── Infinite loop protection ──────────────────────────────────────────────────
 
 describe("createPlanner – infinite loop protection", () => {
-  it("throws PlannerMaxDepthError when task decomposition is cyclic", () => {
+  it("fails with MAX_DEPTH_EXCEEDED when task decomposition is cyclic", () => {
     // A compound task whose only method re-expands to itself, creating an
     // infinite recursion that the depth guard must catch.
     interface S { x: number }
@@ -448,13 +448,241 @@ describe("createPlanner – infinite loop protection", () => {
       },
     };
 
-    expect(() =>
+    const result = createPlanner({
+      domain,
+      initialState: { x: 0 },
+      goals: ["CyclicTask"],
+    }).plan();
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.reason).toBe("MAX_DEPTH_EXCEEDED");
+    expect(result.failedTask).toBe("CyclicTask");
+    expect(result.stats.expansions).toBe(1001);
+  });
+
+  it("honours a custom maxDepth", () => {
+    interface S { x: number }
+    const domain: Domain<S> = {
+      operators: {},
+      compoundTasks: {
+        CyclicTask: {
+          name: "CyclicTask",
+          methods: [{ name: "CyclicMethod", condition: () => true, subtasks: ["CyclicTask"] }],
+        },
+      },
+    };
+    const expanded: string[] = [];
+
+    const result = createPlanner({
+      domain,
+      initialState: { x: 0 },
+      goals: ["CyclicTask"],
+      maxDepth: 5,
+      hooks: { onTaskExpand: (name) => expanded.push(name) },
+    }).plan();
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.reason).toBe("MAX_DEPTH_EXCEEDED");
+    expect(expanded).toHaveLength(6);
+  });
+
+  it("finishes an incremental search with MAX_DEPTH_EXCEEDED", () => {
+    interface S { x: number }
+    const domain: Domain<S> = {
+      operators: {},
+      compoundTasks: {
+        CyclicTask: {
+          name: "CyclicTask",
+          methods: [{ name: "CyclicMethod", condition: () => true, subtasks: ["CyclicTask"] }],
+        },
+      },
+    };
+    const planning = createPlanner({
+      domain,
+      initialState: { x: 0 },
+      goals: ["CyclicTask"],
+      maxDepth: 5,
+    }).planIncrementally();
+
+    expect(planning.step({ maxExpansions: 3 })).toBeNull();
+    const result = planning.step();
+    expect(result?.success === false && result.reason).toBe("MAX_DEPTH_EXCEEDED");
+    expect(planning.step()).toBe(result);
+  });
+});
+
+// ── Long plans ────────────────────────────────────────────────────────────────
+
+describe("createPlanner – long plans", () => {
+  interface Counter { n: number }
+
+  const increment: Operator<Counter> = {
+    name: "Increment",
+    condition: () => true,
+    effect: (s) => ({ n: s.n + 1 }),
+  };
+
+  it("plans tens of thousands of steps from a flat goal list", () => {
+    const domain: Domain<Counter> = { operators: { Increment: increment }, compoundTasks: {} };
+
+    const result = createPlanner({
+      domain,
+      initialState: { n: 0 },
+      goals: new Array<string>(20000).fill("Increment"),
+    }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.plan).toHaveLength(20000);
+    expect(result.finalState).toEqual({ n: 20000 });
+  });
+
+  it("plans long wide decompositions without hitting the depth limit", () => {
+    const domain: Domain<Counter> = {
+      operators: { Increment: increment },
+      compoundTasks: {
+        CountTo: {
+          name: "CountTo",
+          methods: [
+            {
+              name: "Repeat",
+              condition: () => true,
+              subtasks: (_s, args) => new Array<string>(args.times as number).fill("Increment"),
+            },
+          ],
+        },
+        Batches: {
+          name: "Batches",
+          methods: [
+            {
+              name: "TenBatches",
+              condition: () => true,
+              subtasks: new Array(10).fill({ task: "CountTo", args: { times: 3000 } }),
+            },
+          ],
+        },
+      },
+    };
+
+    const result = createPlanner({ domain, initialState: { n: 0 }, goals: ["Batches"] }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.finalState).toEqual({ n: 30000 });
+    expect(result.tree[0].kind === "compound" && result.tree[0].children).toHaveLength(10);
+  });
+
+  it("backtracks out of a long branch", () => {
+    // The first method walks 5000 steps before failing; the second succeeds.
+    const domain: Domain<Counter> = {
+      operators: {
+        Increment: increment,
+        Never: { name: "Never", condition: () => false, effect: (s) => s },
+      },
+      compoundTasks: {
+        Work: {
+          name: "Work",
+          methods: [
+            {
+              name: "LongWay",
+              condition: () => true,
+              subtasks: [...new Array<string>(5000).fill("Increment"), "Never"],
+            },
+            { name: "ShortWay", condition: () => true, subtasks: ["Increment"] },
+          ],
+        },
+      },
+    };
+
+    const result = createPlanner({ domain, initialState: { n: 0 }, goals: ["Work"] }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.plan).toHaveLength(1);
+    expect(result.finalState).toEqual({ n: 1 });
+  });
+
+  /** CountTo recurses once per Increment, with `after` following the recursive call. */
+  function makeCountingDomain(after: string[]): Domain<Counter> {
+    return {
+      operators: {
+        Increment: increment,
+        Noop: { name: "Noop", condition: () => true, effect: (s) => s },
+      },
+      compoundTasks: {
+        CountTo: {
+          name: "CountTo",
+          methods: [
+            { name: "Done", condition: (s, args) => s.n >= (args.limit as number), subtasks: [] },
+            {
+              name: "Step",
+              condition: () => true,
+              subtasks: (_s, args) => ["Increment", { task: "CountTo", args }, ...after],
+            },
+          ],
+        },
+      },
+    };
+  }
+
+  it("does not count tail recursion towards maxDepth", () => {
+    const goals = [{ task: "CountTo", args: { limit: 5000 } }];
+
+    const result = createPlanner({
+      domain: makeCountingDomain([]),
+      initialState: { n: 0 },
+      goals,
+      maxDepth: 10,
+    }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.finalState).toEqual({ n: 5000 });
+  });
+
+  it("counts recursion that is not in tail position towards maxDepth", () => {
+    const config = {
+      domain: makeCountingDomain(["Noop"]),
+      initialState: { n: 0 },
+      goals: [{ task: "CountTo", args: { limit: 50 } }],
+    };
+
+    const shallow = createPlanner({ ...config, maxDepth: 10 }).plan();
+    expect(shallow.success === false && shallow.reason).toBe("MAX_DEPTH_EXCEEDED");
+
+    const result = createPlanner(config).plan();
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.plan).toHaveLength(100);
+  });
+
+  it("fails with MAX_DEPTH_EXCEEDED when tail recursion never ends", () => {
+    const result = createPlanner({
+      domain: makeCountingDomain([]),
+      initialState: { n: 0 },
+      goals: [{ task: "CountTo", args: { limit: Infinity } }],
+    }).plan();
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.reason).toBe("MAX_DEPTH_EXCEEDED");
+    expect(result.failedTask).toBe("CountTo");
+  });
+
+  it("honours a custom maxTailCalls", () => {
+    const plan = (limit: number) =>
       createPlanner({
-        domain,
-        initialState: { x: 0 },
-        goals: ["CyclicTask"],
-      }).plan()
-    ).toThrow(PlannerMaxDepthError);
+        domain: makeCountingDomain([]),
+        initialState: { n: 0 },
+        goals: [{ task: "CountTo", args: { limit } }],
+        maxTailCalls: 100,
+      }).plan();
+
+    expect(plan(100).success).toBe(true);
+    const result = plan(101);
+    expect(result.success === false && result.reason).toBe("MAX_DEPTH_EXCEEDED");
   });
 });
 
@@ -527,3 +755,2070 @@ describe("createPlanner – prototype-pollution safety", () => {
     expect(result.failedTask).toBe("constructor");
   });
 });
+
+// ── Parameterized tasks ───────────────────────────────────────────────────────
+
+describe("createPlanner – parameterized tasks", () => {
+  interface HouseState {
+    location: string;
+    carrying: string | null;
+  }
+
+  function makeHouseDomain(): Domain<HouseState> {
+    return {
+      operators: {
+        MoveTo: {
+          name: "MoveTo",
+          condition: (s, args) => s.location !== args.room,
+          effect: (s, args) => ({ ...s, location: args.room as string }),
+        },
+        PickUp: {
+          name: "PickUp",
+          condition: (s) => s.carrying === null,
+          effect: (s, args) => ({ ...s, carrying: args.item as string }),
+        },
+      },
+      compoundTasks: {
+        Fetch: {
+          name: "Fetch",
+          methods: [
+            {
+              name: "GoAndGrab",
+              condition: (s) => s.carrying === null,
+              subtasks: (_s, args) => [
+                { task: "MoveTo", args: { room: args.from } },
+                { task: "PickUp", args: { item: args.item } },
+                { task: "MoveTo", args: { room: args.to } },
+              ],
+            },
+          ],
+        },
+      },
+    };
+  }
+
+  it("passes TaskCall arguments to operator conditions and effects", () => {
+    const domain = makeHouseDomain();
+    const result = createPlanner({
+      domain,
+      initialState: { location: "Hall", carrying: null },
+      goals: [{ task: "MoveTo", args: { room: "Kitchen" } }],
+    }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.plan.map((o) => o.name)).toEqual(["MoveTo"]);
+    expect(result.steps).toEqual([
+      { operator: domain.operators.MoveTo, args: { room: "Kitchen" }, start: 0, end: 0 },
+    ]);
+  });
+
+  it("lets a method compute its subtasks from the bound arguments", () => {
+    const result = createPlanner({
+      domain: makeHouseDomain(),
+      initialState: { location: "Hall", carrying: null },
+      goals: [{ task: "Fetch", args: { item: "Mug", from: "Kitchen", to: "Office" } }],
+    }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.steps.map((s) => [s.operator.name, s.args])).toEqual([
+      ["MoveTo", { room: "Kitchen" }],
+      ["PickUp", { item: "Mug" }],
+      ["MoveTo", { room: "Office" }],
+    ]);
+  });
+
+  it("uses the same registered operator for different arguments", () => {
+    const domain = makeHouseDomain();
+    const result = createPlanner({
+      domain,
+      initialState: { location: "Hall", carrying: null },
+      goals: [
+        { task: "MoveTo", args: { room: "Kitchen" } },
+        { task: "MoveTo", args: { room: "Office" } },
+      ],
+    }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.plan[0]).toBe(domain.operators.MoveTo);
+    expect(result.plan[1]).toBe(domain.operators.MoveTo);
+  });
+
+  it("backtracks when an argument makes a precondition fail", () => {
+    const result = createPlanner({
+      domain: makeHouseDomain(),
+      initialState: { location: "Kitchen", carrying: null },
+      goals: [{ task: "MoveTo", args: { room: "Kitchen" } }],
+    }).plan();
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.reason).toBe("OPERATOR_PRECONDITION_FAILED");
+    expect(result.failedTask).toBe("MoveTo");
+  });
+
+  it("mixes bare task names and TaskCall references in one goal list", () => {
+    const result = createPlanner({
+      domain: makeHouseDomain(),
+      initialState: { location: "Hall", carrying: null },
+      goals: [{ task: "MoveTo", args: { room: "Kitchen" } }, "PickUp"],
+    }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.steps[1].args).toEqual({});
+  });
+
+  it("returns UNKNOWN_TASK for an unregistered TaskCall in a static subtask list", () => {
+    const domain = makeHouseDomain();
+    domain.compoundTasks.Tidy = {
+      name: "Tidy",
+      methods: [
+        {
+          name: "Sweep",
+          condition: () => true,
+          subtasks: [{ task: "Vacuum", args: { room: "Hall" } }],
+        },
+      ],
+    };
+
+    const result = createPlanner({
+      domain,
+      initialState: { location: "Hall", carrying: null },
+      goals: ["Tidy"],
+    }).plan();
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.reason).toBe("UNKNOWN_TASK");
+    expect(result.failedTask).toBe("Vacuum");
+  });
+});
+
+// ── Method bindings ───────────────────────────────────────────────────────────
+
+describe("createPlanner – method bindings", () => {
+  interface ChargeState {
+    chargers: Record<string, { free: boolean; reachable: boolean }>;
+    chargingAt: string | null;
+  }
+
+  function makeChargeDomain(): Domain<ChargeState> {
+    return {
+      operators: {
+        DockAt: {
+          name: "DockAt",
+          condition: (s, args) => s.chargers[args.charger as string].reachable,
+          effect: (s, args) => ({ ...s, chargingAt: args.charger as string }),
+        },
+        Wait: {
+          name: "Wait",
+          condition: () => true,
+          effect: (s) => s,
+        },
+      },
+      compoundTasks: {
+        Recharge: {
+          name: "Recharge",
+          methods: [
+            {
+              name: "DecomposeVia",
+              bindings: function* (s) {
+                for (const [id, charger] of Object.entries(s.chargers)) {
+                  if (charger.free) yield { charger: id };
+                }
+              },
+              condition: () => true,
+              subtasks: (_s, args) => [{ task: "DockAt", args: { charger: args.charger } }],
+            },
+            {
+              name: "WaitForCharger",
+              condition: () => true,
+              subtasks: ["Wait"],
+            },
+          ],
+        },
+      },
+    };
+  }
+
+  it("decomposes with the first binding that leads to a plan", () => {
+    const result = createPlanner({
+      domain: makeChargeDomain(),
+      initialState: {
+        chargers: {
+          c1: { free: false, reachable: true },
+          c2: { free: true, reachable: true },
+          c3: { free: true, reachable: true },
+        },
+        chargingAt: null,
+      },
+      goals: ["Recharge"],
+    }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.steps.map((s) => s.args)).toEqual([{ charger: "c2" }]);
+  });
+
+  it("backtracks across bindings before moving to the next method", () => {
+    const result = createPlanner({
+      domain: makeChargeDomain(),
+      initialState: {
+        chargers: {
+          c1: { free: true, reachable: false },
+          c2: { free: true, reachable: true },
+        },
+        chargingAt: null,
+      },
+      goals: ["Recharge"],
+    }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.plan.map((o) => o.name)).toEqual(["DockAt"]);
+    expect(result.steps[0].args).toEqual({ charger: "c2" });
+  });
+
+  it("falls through to the next method when no binding works", () => {
+    const result = createPlanner({
+      domain: makeChargeDomain(),
+      initialState: {
+        chargers: { c1: { free: true, reachable: false } },
+        chargingAt: null,
+      },
+      goals: ["Recharge"],
+    }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.plan.map((o) => o.name)).toEqual(["Wait"]);
+  });
+
+  it("merges bindings over the compound task's arguments and checks the condition per binding", () => {
+    interface S { rooms: string[] }
+    const domain: Domain<S> = {
+      operators: {
+        Clean: {
+          name: "Clean",
+          condition: () => true,
+          effect: (s) => s,
+        },
+      },
+      compoundTasks: {
+        CleanFloor: {
+          name: "CleanFloor",
+          methods: [
+            {
+              name: "PerRoom",
+              bindings: (s) => s.rooms.map((room) => ({ room })),
+              condition: (_s, args) => (args.room as string).startsWith(args.floor as string),
+              subtasks: (_s, args) => [{ task: "Clean", args: { room: args.room } }],
+            },
+          ],
+        },
+      },
+    };
+
+    const result = createPlanner({
+      domain,
+      initialState: { rooms: ["1A", "2A", "2B"] },
+      goals: [{ task: "CleanFloor", args: { floor: "2" } }],
+    }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.steps[0].args).toEqual({ room: "2A" });
+  });
+
+  it("consumes binding generators lazily", () => {
+    const yielded: number[] = [];
+    interface S { n: number }
+    const domain: Domain<S> = {
+      operators: {
+        Use: { name: "Use", condition: () => true, effect: (s) => s },
+      },
+      compoundTasks: {
+        Pick: {
+          name: "Pick",
+          methods: [
+            {
+              name: "Each",
+              bindings: function* () {
+                for (let i = 0; i < 100; i++) {
+                  yielded.push(i);
+                  yield { i };
+                }
+              },
+              condition: () => true,
+              subtasks: ["Use"],
+            },
+          ],
+        },
+      },
+    };
+
+    createPlanner({ domain, initialState: { n: 0 }, goals: ["Pick"] }).plan();
+
+    expect(yielded).toEqual([0]);
+  });
+});
+
+// ── Cost-aware optimal planning ───────────────────────────────────────────────
+
+describe("createPlanner – optimal strategy", () => {
+  interface TripState {
+    at: string;
+    hasTicket: boolean;
+  }
+
+  function makeTripDomain(): Domain<TripState> {
+    return {
+      operators: {
+        Taxi: { name: "Taxi", cost: 40, condition: () => true, effect: (s) => ({ ...s, at: "Airport" }) },
+        BuyTicket: {
+          name: "BuyTicket",
+          cost: 3,
+          condition: (s) => !s.hasTicket,
+          effect: (s) => ({ ...s, hasTicket: true }),
+        },
+        Train: {
+          name: "Train",
+          cost: (s) => (s.hasTicket ? 5 : 100),
+          condition: () => true,
+          effect: (s) => ({ ...s, at: "Airport" }),
+        },
+        Walk: { name: "Walk", cost: 0, condition: () => true, effect: (s) => s },
+      },
+      compoundTasks: {
+        GoToAirport: {
+          name: "GoToAirport",
+          methods: [
+            { name: "ByTaxi", condition: () => true, subtasks: ["Taxi"] },
+            { name: "ByTrainNoTicket", condition: () => true, subtasks: ["Walk", "Train"] },
+            { name: "ByTrain", condition: () => true, subtasks: ["BuyTicket", "Walk", "Train"] },
+          ],
+        },
+      },
+    };
+  }
+
+  it("keeps first-found DFS as the default and reports its cost", () => {
+    const result = createPlanner({
+      domain: makeTripDomain(),
+      initialState: { at: "Home", hasTicket: false },
+      goals: ["GoToAirport"],
+    }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.plan.map((o) => o.name)).toEqual(["Taxi"]);
+    expect(result.cost).toBe(40);
+  });
+
+  it("returns the lowest-cost plan in optimal mode", () => {
+    const result = createPlanner({
+      domain: makeTripDomain(),
+      initialState: { at: "Home", hasTicket: false },
+      goals: ["GoToAirport"],
+      strategy: "optimal",
+    }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.plan.map((o) => o.name)).toEqual(["BuyTicket", "Walk", "Train"]);
+    expect(result.cost).toBe(8);
+  });
+
+  it("evaluates function costs in the state the operator is applied in", () => {
+    const result = createPlanner({
+      domain: makeTripDomain(),
+      initialState: { at: "Home", hasTicket: true },
+      goals: ["GoToAirport"],
+      strategy: "optimal",
+    }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    // With a ticket already in hand the train costs 5 without buying another.
+    expect(result.plan.map((o) => o.name)).toEqual(["Walk", "Train"]);
+    expect(result.cost).toBe(5);
+  });
+
+  it("charges a default cost of 1 per operator, preferring shorter plans", () => {
+    interface S { done: boolean }
+    const domain: Domain<S> = {
+      operators: {
+        Step: { name: "Step", condition: () => true, effect: (s) => s },
+        Finish: { name: "Finish", condition: () => true, effect: () => ({ done: true }) },
+      },
+      compoundTasks: {
+        Do: {
+          name: "Do",
+          methods: [
+            { name: "Long", condition: () => true, subtasks: ["Step", "Step", "Finish"] },
+            { name: "Short", condition: () => true, subtasks: ["Finish"] },
+          ],
+        },
+      },
+    };
+
+    const result = createPlanner({
+      domain,
+      initialState: { done: false },
+      goals: ["Do"],
+      strategy: "optimal",
+    }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.plan.map((o) => o.name)).toEqual(["Finish"]);
+    expect(result.cost).toBe(1);
+  });
+
+  it("prunes branches that cannot beat the best plan found so far", () => {
+    const applied: string[] = [];
+    createPlanner({
+      domain: makeTripDomain(),
+      initialState: { at: "Home", hasTicket: false },
+      goals: ["GoToAirport"],
+      strategy: "optimal",
+      hooks: { onOperatorApply: (name) => applied.push(name) },
+    }).plan();
+
+    // ByTrainNoTicket: Walk (0) is applied, but Train (100 ≥ 40) is pruned.
+    expect(applied).toEqual(["Taxi", "Walk", "BuyTicket", "Walk", "Train"]);
+  });
+
+  it("still reports a failure when no decomposition works", () => {
+    const domain = makeTripDomain();
+    const result = createPlanner({
+      domain,
+      initialState: { at: "Home", hasTicket: false },
+      goals: ["BuyTicket", "BuyTicket"],
+      strategy: "optimal",
+    }).plan();
+
+    expect(result.success).toBe(false);
+  });
+
+  it("throws a RangeError for a negative operator cost", () => {
+    interface S { x: number }
+    const domain: Domain<S> = {
+      operators: { Refund: { name: "Refund", cost: -1, condition: () => true, effect: (s) => s } },
+      compoundTasks: {},
+    };
+
+    expect(() =>
+      createPlanner({ domain, initialState: { x: 0 }, goals: ["Refund"] }).plan()
+    ).toThrow(RangeError);
+  });
+});
+
+// ── Predicted states ──────────────────────────────────────────────────────────
+
+describe("createPlanner – predicted states", () => {
+  it("returns the predicted final state", () => {
+    const result = createPlanner({
+      domain: makeRobotDomain(),
+      initialState: { location: "Hall", hasItem: false, batteryLevel: 100 },
+      goals: ["FetchCoffee"],
+    }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.finalState).toEqual({ location: "Start", hasItem: true, batteryLevel: 100 });
+  });
+
+  it("returns the initial state as the final state of an empty plan", () => {
+    const initialState = { location: "Hall", hasItem: false, batteryLevel: 100 };
+    const result = createPlanner({ domain: makeRobotDomain(), initialState, goals: [] }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.finalState).toBe(initialState);
+  });
+
+  it("omits intermediate states unless recordStates is enabled", () => {
+    const result = createPlanner({
+      domain: makeRobotDomain(),
+      initialState: { location: "Hall", hasItem: false, batteryLevel: 100 },
+      goals: ["FetchCoffee"],
+    }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.states).toBeUndefined();
+  });
+
+  it("records the state after each step when recordStates is enabled", () => {
+    const result = createPlanner({
+      domain: makeRobotDomain(),
+      initialState: { location: "Hall", hasItem: false, batteryLevel: 100 },
+      goals: ["FetchCoffee"],
+      recordStates: true,
+    }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.states).toEqual([
+      { location: "Kitchen", hasItem: false, batteryLevel: 100 },
+      { location: "Kitchen", hasItem: true, batteryLevel: 100 },
+      { location: "Start", hasItem: true, batteryLevel: 100 },
+    ]);
+    expect(result.states![result.states!.length - 1]).toBe(result.finalState);
+  });
+
+  it("drops the states of abandoned branches when backtracking", () => {
+    interface S { counter: number }
+    const domain: Domain<S> = {
+      operators: {
+        AddTen: { name: "AddTen", condition: () => true, effect: (s) => ({ counter: s.counter + 10 }) },
+        AddOneIfSmall: {
+          name: "AddOneIfSmall",
+          condition: (s) => s.counter < 5,
+          effect: (s) => ({ counter: s.counter + 1 }),
+        },
+      },
+      compoundTasks: {
+        Count: {
+          name: "Count",
+          methods: [
+            { name: "Big", condition: () => true, subtasks: ["AddTen", "AddOneIfSmall"] },
+            { name: "Small", condition: () => true, subtasks: ["AddOneIfSmall", "AddOneIfSmall"] },
+          ],
+        },
+      },
+    };
+
+    const result = createPlanner({
+      domain,
+      initialState: { counter: 0 },
+      goals: ["Count"],
+      recordStates: true,
+    }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.states).toEqual([{ counter: 1 }, { counter: 2 }]);
+  });
+});
+
+// ── Decomposition tree ────────────────────────────────────────────────────────
+
+describe("createPlanner – decomposition tree", () => {
+  it("describes the compound task, chosen method and leaf operators", () => {
+    const result = createPlanner({
+      domain: makeRobotDomain(),
+      initialState: { location: "Hall", hasItem: false, batteryLevel: 100 },
+      goals: ["FetchCoffee"],
+    }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.tree).toEqual([
+      {
+        kind: "compound",
+        task: "FetchCoffee",
+        args: {},
+        method: "StandardFetch",
+        children: [
+          { kind: "primitive", task: "MoveToKitchen", args: {}, planIndex: 0 },
+          { kind: "primitive", task: "PourCoffee", args: {}, planIndex: 1 },
+          { kind: "primitive", task: "ReturnToStart", args: {}, planIndex: 2 },
+        ],
+      },
+    ]);
+  });
+
+  it("has one root per goal, with primitive goals as leaves", () => {
+    const result = createPlanner({
+      domain: makeRobotDomain(),
+      initialState: { location: "Hall", hasItem: false, batteryLevel: 100 },
+      goals: ["MoveToKitchen", "PourCoffee"],
+    }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.tree.map((n) => [n.kind, n.task])).toEqual([
+      ["primitive", "MoveToKitchen"],
+      ["primitive", "PourCoffee"],
+    ]);
+  });
+
+  it("nests compound subtasks and only keeps the successful branch", () => {
+    interface S { counter: number }
+    const domain: Domain<S> = {
+      operators: {
+        AddTen: { name: "AddTen", condition: () => true, effect: (s) => ({ counter: s.counter + 10 }) },
+        AddOne: {
+          name: "AddOne",
+          condition: (s) => s.counter < 5,
+          effect: (s) => ({ counter: s.counter + 1 }),
+        },
+      },
+      compoundTasks: {
+        Inner: {
+          name: "Inner",
+          methods: [
+            { name: "Big", condition: () => true, subtasks: ["AddTen", "AddOne"] },
+            { name: "Small", condition: () => true, subtasks: ["AddOne"] },
+          ],
+        },
+        Outer: {
+          name: "Outer",
+          methods: [{ name: "Wrap", condition: () => true, subtasks: ["AddOne", "Inner"] }],
+        },
+      },
+    };
+
+    const result = createPlanner({ domain, initialState: { counter: 0 }, goals: ["Outer"] }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    const [outer] = result.tree;
+    expect(outer.kind).toBe("compound");
+    if (outer.kind !== "compound") return;
+    expect(outer.method).toBe("Wrap");
+    const [first, inner] = outer.children;
+    expect(first).toEqual({ kind: "primitive", task: "AddOne", args: {}, planIndex: 0 });
+    expect(inner).toEqual({
+      kind: "compound",
+      task: "Inner",
+      args: {},
+      method: "Small",
+      children: [{ kind: "primitive", task: "AddOne", args: {}, planIndex: 1 }],
+    });
+  });
+
+  it("records arguments and the chosen binding", () => {
+    interface S { doors: string[] }
+    const domain: Domain<S> = {
+      operators: {
+        Open: { name: "Open", condition: () => true, effect: (s) => s },
+      },
+      compoundTasks: {
+        Leave: {
+          name: "Leave",
+          methods: [
+            {
+              name: "ViaDoor",
+              bindings: (s) => s.doors.map((door) => ({ door })),
+              condition: () => true,
+              subtasks: (_s, args) => [{ task: "Open", args: { door: args.door } }],
+            },
+          ],
+        },
+      },
+    };
+
+    const result = createPlanner({
+      domain,
+      initialState: { doors: ["front"] },
+      goals: [{ task: "Leave", args: { quickly: true } }],
+    }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.tree).toEqual([
+      {
+        kind: "compound",
+        task: "Leave",
+        args: { quickly: true },
+        method: "ViaDoor",
+        binding: { door: "front" },
+        children: [{ kind: "primitive", task: "Open", args: { door: "front" }, planIndex: 0 }],
+      },
+    ]);
+  });
+
+  it("keeps compound nodes whose method has no subtasks", () => {
+    interface S { x: number }
+    const domain: Domain<S> = {
+      operators: {},
+      compoundTasks: {
+        Nothing: { name: "Nothing", methods: [{ name: "Skip", condition: () => true, subtasks: [] }] },
+      },
+    };
+
+    const result = createPlanner({ domain, initialState: { x: 0 }, goals: ["Nothing"] }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.tree).toEqual([
+      { kind: "compound", task: "Nothing", args: {}, method: "Skip", children: [] },
+    ]);
+  });
+
+  it("describes the cheapest decomposition in optimal mode", () => {
+    interface S { x: number }
+    const domain: Domain<S> = {
+      operators: {
+        Cheap: { name: "Cheap", cost: 1, condition: () => true, effect: (s) => s },
+        Pricey: { name: "Pricey", cost: 9, condition: () => true, effect: (s) => s },
+      },
+      compoundTasks: {
+        Buy: {
+          name: "Buy",
+          methods: [
+            { name: "Expensive", condition: () => true, subtasks: ["Pricey"] },
+            { name: "Budget", condition: () => true, subtasks: ["Cheap"] },
+          ],
+        },
+      },
+    };
+
+    const result = createPlanner({
+      domain,
+      initialState: { x: 0 },
+      goals: ["Buy"],
+      strategy: "optimal",
+    }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    const [root] = result.tree;
+    expect(root.kind === "compound" && root.method).toBe("Budget");
+  });
+});
+
+// ── Failure diagnostics ───────────────────────────────────────────────────────
+
+describe("createPlanner – failure diagnostics", () => {
+  interface DeliveryState {
+    at: string;
+    fuel: number;
+    loaded: boolean;
+  }
+
+  function makeDeliveryDomain(): Domain<DeliveryState> {
+    return {
+      operators: {
+        Load: { name: "Load", condition: (s) => !s.loaded, effect: (s) => ({ ...s, loaded: true }) },
+        Drive: {
+          name: "Drive",
+          condition: (s) => s.fuel >= 10,
+          effect: (s, args) => ({ ...s, at: args.to as string, fuel: s.fuel - 10 }),
+        },
+        Unload: { name: "Unload", condition: (s) => s.loaded, effect: (s) => ({ ...s, loaded: false }) },
+      },
+      compoundTasks: {
+        Deliver: {
+          name: "Deliver",
+          methods: [
+            {
+              name: "ByTruck",
+              condition: () => true,
+              subtasks: ["Load", "Travel", "Unload"],
+            },
+          ],
+        },
+        Travel: {
+          name: "Travel",
+          methods: [
+            {
+              name: "DriveThere",
+              condition: (s) => s.at !== "Depot",
+              subtasks: [{ task: "Drive", args: { to: "Depot" } }],
+            },
+          ],
+        },
+      },
+    };
+  }
+
+  it("reports the deepest failure instead of blaming the top-level goal", () => {
+    const result = createPlanner({
+      domain: makeDeliveryDomain(),
+      initialState: { at: "Shop", fuel: 5, loaded: false },
+      goals: ["Deliver"],
+    }).plan();
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.reason).toBe("OPERATOR_PRECONDITION_FAILED");
+    expect(result.failedTask).toBe("Drive");
+    expect(result.deepestFailure).toEqual({
+      reason: "OPERATOR_PRECONDITION_FAILED",
+      task: "Drive",
+      args: { to: "Depot" },
+      taskPath: ["Deliver", "Travel", "Drive"],
+      method: "DriveThere",
+      operator: "Drive",
+      state: { at: "Shop", fuel: 5, loaded: true },
+      depth: 3,
+    });
+  });
+
+  it("reports NO_APPLICABLE_METHOD for a nested compound task with the method that produced it", () => {
+    const result = createPlanner({
+      domain: makeDeliveryDomain(),
+      initialState: { at: "Depot", fuel: 50, loaded: false },
+      goals: ["Deliver"],
+    }).plan();
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.reason).toBe("NO_APPLICABLE_METHOD");
+    expect(result.failedTask).toBe("Travel");
+    expect(result.deepestFailure?.taskPath).toEqual(["Deliver", "Travel"]);
+    expect(result.deepestFailure?.method).toBe("ByTruck");
+    expect(result.deepestFailure?.operator).toBeUndefined();
+  });
+
+  it("omits the method for a failing top-level goal", () => {
+    const result = createPlanner({
+      domain: makeDeliveryDomain(),
+      initialState: { at: "Shop", fuel: 0, loaded: false },
+      goals: [{ task: "Drive", args: { to: "Depot" } }],
+    }).plan();
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.deepestFailure?.taskPath).toEqual(["Drive"]);
+    expect(result.deepestFailure?.method).toBeUndefined();
+  });
+
+  it("reports UNKNOWN_TASK for an unknown task produced by a computed subtask list", () => {
+    const domain = makeDeliveryDomain();
+    domain.compoundTasks.Refuel = {
+      name: "Refuel",
+      methods: [{ name: "AtStation", condition: () => true, subtasks: () => ["PumpGas"] }],
+    };
+
+    const result = createPlanner({
+      domain,
+      initialState: { at: "Shop", fuel: 0, loaded: false },
+      goals: ["Refuel"],
+    }).plan();
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.reason).toBe("UNKNOWN_TASK");
+    expect(result.failedTask).toBe("PumpGas");
+    expect(result.deepestFailure?.taskPath).toEqual(["Refuel", "PumpGas"]);
+  });
+
+  it("only lists every failed branch when debug is enabled", () => {
+    interface S { n: number }
+    const domain: Domain<S> = {
+      operators: {
+        Never: { name: "Never", condition: () => false, effect: (s) => s },
+      },
+      compoundTasks: {
+        Try: {
+          name: "Try",
+          methods: [
+            { name: "First", condition: () => true, subtasks: ["Never"] },
+            { name: "Second", condition: () => true, subtasks: ["Never"] },
+          ],
+        },
+      },
+    };
+
+    const quiet = createPlanner({ domain, initialState: { n: 0 }, goals: ["Try"] }).plan();
+    const verbose = createPlanner({ domain, initialState: { n: 0 }, goals: ["Try"], debug: true }).plan();
+
+    expect(quiet.success || quiet.failedBranches).toBeUndefined();
+    expect(verbose.success).toBe(false);
+    if (verbose.success) return;
+    expect(verbose.failedBranches?.map((f) => f.method)).toEqual(["First", "Second"]);
+    expect(verbose.deepestFailure).toBe(verbose.failedBranches?.[0]);
+  });
+
+  it("does not report dead ends when the search eventually succeeds", () => {
+    const result = createPlanner({
+      domain: makeRobotDomain(),
+      initialState: { location: "Hall", hasItem: false, batteryLevel: 100 },
+      goals: ["FetchCoffee"],
+      debug: true,
+    }).plan();
+
+    expect(result.success).toBe(true);
+    expect("failedBranches" in result).toBe(false);
+  });
+});
+
+// ── Planning budgets ──────────────────────────────────────────────────────────
+
+describe("createPlanner – planning budgets", () => {
+  interface Counter { n: number }
+
+  const domain: Domain<Counter> = {
+    operators: {
+      Increment: { name: "Increment", condition: () => true, effect: (s) => ({ n: s.n + 1 }) },
+    },
+    compoundTasks: {
+      Count: {
+        name: "Count",
+        methods: [{ name: "Twice", condition: () => true, subtasks: ["Increment", "Increment"] }],
+      },
+    },
+  };
+
+  it("stops with BUDGET_EXCEEDED once maxExpansions tasks were processed", () => {
+    const expanded: string[] = [];
+    const result = createPlanner({
+      domain,
+      initialState: { n: 0 },
+      goals: ["Count", "Count"],
+      maxExpansions: 4,
+      hooks: { onTaskExpand: (name) => expanded.push(name) },
+    }).plan();
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.reason).toBe("BUDGET_EXCEEDED");
+    expect(result.failedTask).toBe("Increment");
+    expect(expanded).toEqual(["Count", "Increment", "Increment", "Count"]);
+    expect(result.stats).toEqual({
+      expansions: 4,
+      methodTries: 2,
+      backtracks: 0,
+      operatorApplications: 2,
+      maxSearchDepth: 3,
+      elapsedMs: expect.any(Number),
+    });
+  });
+
+  it("succeeds when the plan fits in the expansion budget", () => {
+    const result = createPlanner({
+      domain,
+      initialState: { n: 0 },
+      goals: ["Count", "Count"],
+      maxExpansions: 6,
+    }).plan();
+
+    expect(result.success).toBe(true);
+  });
+
+  it("stops with BUDGET_EXCEEDED when timeoutMs runs out", () => {
+    const slow: Domain<Counter> = {
+      operators: {
+        Slow: {
+          name: "Slow",
+          condition: () => true,
+          effect: (s) => {
+            const until = Date.now() + 5;
+            while (Date.now() < until) {
+              // busy-wait to simulate an expensive effect
+            }
+            return { n: s.n + 1 };
+          },
+        },
+      },
+      compoundTasks: {},
+    };
+
+    const result = createPlanner({
+      domain: slow,
+      initialState: { n: 0 },
+      goals: new Array<string>(100).fill("Slow"),
+      timeoutMs: 20,
+    }).plan();
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.reason).toBe("BUDGET_EXCEEDED");
+    expect(result.stats?.expansions).toBeLessThan(100);
+    expect(result.stats?.elapsedMs).toBeGreaterThanOrEqual(20);
+  });
+
+  it("does not return an unproven plan when the optimal search runs out of budget", () => {
+    // The first plan is found within budget, but proving it optimal would
+    // require trying the second method too.
+    const twoWays: Domain<Counter> = {
+      operators: domain.operators,
+      compoundTasks: {
+        Count: {
+          name: "Count",
+          methods: [
+            ...domain.compoundTasks.Count.methods,
+            { name: "Once", condition: () => true, subtasks: ["Increment"] },
+          ],
+        },
+      },
+    };
+
+    const result = createPlanner({
+      domain: twoWays,
+      initialState: { n: 0 },
+      goals: ["Count"],
+      strategy: "optimal",
+      maxExpansions: 3,
+    }).plan();
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.reason).toBe("BUDGET_EXCEEDED");
+  });
+});
+
+// ── Incremental planning ──────────────────────────────────────────────────────
+
+describe("createPlanner – planIncrementally", () => {
+  const initialState: RobotState = { location: "Hall", hasItem: false, batteryLevel: 100 };
+
+  it("pauses after each slice and resumes where it left off", () => {
+    const planning = createPlanner({
+      domain: makeRobotDomain(),
+      initialState,
+      goals: ["FetchCoffee"],
+    }).planIncrementally();
+
+    expect(planning.step({ maxExpansions: 2 })).toBeNull();
+    expect(planning.expansions).toBe(2);
+    expect(planning.result).toBeNull();
+
+    expect(planning.step({ maxExpansions: 1 })).toBeNull();
+    expect(planning.expansions).toBe(3);
+
+    const result = planning.step({ maxExpansions: 10 });
+    expect(result?.success).toBe(true);
+    expect(planning.result).toBe(result);
+    expect(planning.step()).toBe(result);
+  });
+
+  it("finds the same plan as plan() one expansion at a time", () => {
+    const config = {
+      domain: makeRobotDomain(),
+      initialState: { ...initialState, batteryLevel: 10 },
+      goals: ["FetchCoffee"],
+    };
+    const planning = createPlanner(config).planIncrementally();
+
+    let result = planning.step({ maxExpansions: 1 });
+    let steps = 1;
+    while (result === null) {
+      result = planning.step({ maxExpansions: 1 });
+      steps++;
+    }
+
+    // Timing aside, the result is the same.
+    const expected = createPlanner(config).plan();
+    expect(result).toEqual({
+      ...expected,
+      stats: { ...expected.stats, elapsedMs: result.stats.elapsedMs },
+    });
+    expect(steps).toBeGreaterThan(1);
+  });
+
+  it("pauses when a slice's time runs out", () => {
+    const planning = createPlanner({
+      domain: makeRobotDomain(),
+      initialState,
+      goals: ["FetchCoffee"],
+    }).planIncrementally();
+
+    expect(planning.step({ timeoutMs: 0 })).toBeNull();
+    expect(planning.expansions).toBe(0);
+    expect(planning.run().success).toBe(true);
+  });
+
+  it("applies the configured expansion budget across slices", () => {
+    const planning = createPlanner({
+      domain: makeRobotDomain(),
+      initialState,
+      goals: ["FetchCoffee"],
+      maxExpansions: 3,
+    }).planIncrementally();
+
+    expect(planning.step({ maxExpansions: 2 })).toBeNull();
+    const result = planning.step({ maxExpansions: 2 });
+
+    expect(result?.success).toBe(false);
+    if (result === null || result.success) return;
+    expect(result.reason).toBe("BUDGET_EXCEEDED");
+    expect(result.stats?.expansions).toBe(3);
+  });
+
+  it("reports unknown tasks on the first step", () => {
+    const planning = createPlanner({
+      domain: makeRobotDomain(),
+      initialState,
+      goals: ["FlyToMoon"],
+    }).planIncrementally();
+
+    expect(planning.step({ maxExpansions: 1 })).toMatchObject({
+      success: false,
+      reason: "UNKNOWN_TASK",
+      failedTask: "FlyToMoon",
+      stats: { expansions: 0 },
+    });
+  });
+});
+
+// ── Cycle detection ───────────────────────────────────────────────────────────
+
+describe("createPlanner – cycle detection", () => {
+  interface Pos { x: number }
+
+  const step: Operator<Pos> = {
+    name: "Step",
+    condition: (s) => s.x < 3,
+    effect: (s) => ({ x: s.x + 1 }),
+  };
+  const stateHash = (s: Pos): number => s.x;
+
+  it("reports CYCLE_DETECTED instead of throwing when a task re-expands itself", () => {
+    const expanded: string[] = [];
+    const domain: Domain<Pos> = {
+      operators: {},
+      compoundTasks: {
+        Spin: {
+          name: "Spin",
+          methods: [{ name: "Again", condition: () => true, subtasks: ["Spin"] }],
+        },
+      },
+    };
+
+    const result = createPlanner({
+      domain,
+      initialState: { x: 0 },
+      goals: ["Spin"],
+      stateHash,
+      hooks: { onTaskExpand: (name) => expanded.push(name) },
+    }).plan();
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.reason).toBe("CYCLE_DETECTED");
+    expect(result.failedTask).toBe("Spin");
+    expect(result.cycle).toEqual(["Spin", "Spin"]);
+    expect(expanded).toEqual(["Spin", "Spin"]);
+  });
+
+  it("reports the whole chain of a cycle through several tasks", () => {
+    const domain: Domain<Pos> = {
+      operators: { Step: step },
+      compoundTasks: {
+        Ping: {
+          name: "Ping",
+          methods: [{ name: "ToPong", condition: () => true, subtasks: ["Pong"] }],
+        },
+        Pong: {
+          name: "Pong",
+          methods: [{ name: "ToPing", condition: () => true, subtasks: ["Ping"] }],
+        },
+      },
+    };
+
+    const result = createPlanner({ domain, initialState: { x: 0 }, goals: ["Ping"], stateHash }).plan();
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.cycle).toEqual(["Ping", "Pong", "Ping"]);
+    expect(result.deepestFailure?.reason).toBe("CYCLE_DETECTED");
+  });
+
+  it("prunes the cyclic method and backtracks to one that works", () => {
+    const domain: Domain<Pos> = {
+      operators: { Step: step },
+      compoundTasks: {
+        Advance: {
+          name: "Advance",
+          methods: [
+            { name: "Stall", condition: () => true, subtasks: ["Advance"] },
+            { name: "Move", condition: () => true, subtasks: ["Step"] },
+          ],
+        },
+      },
+    };
+
+    const result = createPlanner({ domain, initialState: { x: 0 }, goals: ["Advance"], stateHash }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.finalState).toEqual({ x: 1 });
+  });
+
+  it("does not treat recursion that changes the state as a cycle", () => {
+    const domain: Domain<Pos> = {
+      operators: { Step: step },
+      compoundTasks: {
+        Walk: {
+          name: "Walk",
+          methods: [
+            { name: "Arrived", condition: (s) => s.x >= 3, subtasks: [] },
+            { name: "Onward", condition: () => true, subtasks: ["Step", "Walk"] },
+          ],
+        },
+      },
+    };
+
+    const result = createPlanner({ domain, initialState: { x: 0 }, goals: ["Walk"], stateHash }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.plan).toHaveLength(3);
+  });
+
+  it("does not treat the same task with different arguments as a cycle", () => {
+    const domain: Domain<Pos> = {
+      operators: { Step: step },
+      compoundTasks: {
+        Countdown: {
+          name: "Countdown",
+          methods: [
+            { name: "Zero", condition: (_s, args) => args.n === 0, subtasks: ["Step"] },
+            {
+              name: "Lower",
+              condition: (_s, args) => (args.n as number) > 0,
+              subtasks: (_s, args) => [{ task: "Countdown", args: { n: (args.n as number) - 1 } }],
+            },
+          ],
+        },
+      },
+    };
+
+    const result = createPlanner({
+      domain,
+      initialState: { x: 0 },
+      goals: [{ task: "Countdown", args: { n: 5 } }],
+      stateHash,
+    }).plan();
+
+    expect(result.success).toBe(true);
+  });
+});
+
+// ── Memoization of failed subproblems ─────────────────────────────────────────
+
+describe("createPlanner – memoization", () => {
+  interface Pos { x: number }
+
+  const stateHash = (s: Pos): number => s.x;
+
+  /** Three interchangeable ways to get nowhere, then a task that always fails. */
+  function makeDeadEndDomain(): Domain<Pos> {
+    const wait = { name: "Wait", condition: () => true, subtasks: ["Noop"] };
+    return {
+      operators: {
+        Noop: { name: "Noop", condition: () => true, effect: (s) => s },
+        Jump: { name: "Jump", condition: (s) => s.x > 5, effect: (s) => ({ x: s.x + 1 }) },
+      },
+      compoundTasks: {
+        Choose: {
+          name: "Choose",
+          methods: [wait, { ...wait, name: "Linger" }, { ...wait, name: "Idle" }],
+        },
+        Finish: {
+          name: "Finish",
+          methods: [
+            { name: "High", condition: () => true, subtasks: ["Jump"] },
+            { name: "Higher", condition: () => true, subtasks: ["Jump", "Jump"] },
+          ],
+        },
+      },
+    };
+  }
+
+  /** Runs the dead-end domain, counting the methods of Finish that get tried. */
+  function countFinish(memoize: boolean): { result: PlanningResult<Pos>; finish: number } {
+    let finish = 0;
+    const result = createPlanner({
+      domain: makeDeadEndDomain(),
+      initialState: { x: 0 },
+      goals: ["Choose", "Choose", "Finish"],
+      stateHash,
+      memoize,
+      hooks: { onMethodTry: (task) => (finish += task === "Finish" ? 1 : 0) },
+    }).plan();
+    return { result, finish };
+  }
+
+  it("skips remaining tasks already known to fail in an equivalent state", () => {
+    const without = countFinish(false);
+    const memoized = countFinish(true);
+
+    expect(without.finish).toBe(18);
+    expect(memoized.finish).toBe(2);
+    expect(memoized.result.success).toBe(false);
+    if (memoized.result.success || without.result.success) return;
+    expect(memoized.result.reason).toBe(without.result.reason);
+    expect(memoized.result.stats).toMatchObject({ memoHits: 4, memoMisses: 3 });
+    expect(without.result.stats.memoHits).toBeUndefined();
+  });
+
+  it("reports every hit through onMemoHit", () => {
+    const hits: string[] = [];
+
+    createPlanner({
+      domain: makeDeadEndDomain(),
+      initialState: { x: 0 },
+      goals: ["Choose", "Choose", "Finish"],
+      stateHash,
+      memoize: true,
+      hooks: { onMemoHit: (name, depth) => hits.push(`${name}@${depth}`) },
+    }).plan();
+
+    expect(hits).toEqual(["Finish@4", "Finish@4", "Choose@2", "Choose@2"]);
+  });
+
+  it("reports memo statistics on success", () => {
+    const domain = makeDeadEndDomain();
+    const result = createPlanner({
+      domain,
+      initialState: { x: 6 },
+      goals: ["Choose", "Finish"],
+      stateHash,
+      memoize: true,
+    }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.stats).toMatchObject({ memoHits: 0, memoMisses: 2 });
+  });
+
+  it("only skips a search space in optimal mode when it is reached again at no lower cost", () => {
+    function plan(first: string, second: string) {
+      const domain: Domain<Pos> = {
+        operators: {
+          Cheap: { name: "Cheap", condition: () => true, effect: (s) => s, cost: 1 },
+          Pricey: { name: "Pricey", condition: () => true, effect: (s) => s, cost: 2 },
+          Pay: { name: "Pay", condition: () => true, effect: (s) => ({ x: s.x + 1 }), cost: 3 },
+        },
+        compoundTasks: {
+          Choose: {
+            name: "Choose",
+            methods: [
+              { name: first, condition: () => true, subtasks: [first] },
+              { name: second, condition: () => true, subtasks: [second] },
+            ],
+          },
+          Settle: {
+            name: "Settle",
+            methods: [{ name: "Once", condition: () => true, subtasks: ["Pay"] }],
+          },
+        },
+      };
+      return createPlanner({
+        domain,
+        initialState: { x: 0 },
+        goals: ["Choose", "Settle"],
+        strategy: "optimal",
+        stateHash,
+        memoize: true,
+      }).plan();
+    }
+
+    const expensiveFirst = plan("Pricey", "Cheap");
+    const cheapFirst = plan("Cheap", "Pricey");
+
+    expect(expensiveFirst.success && expensiveFirst.cost).toBe(4);
+    expect(expensiveFirst.success && expensiveFirst.stats?.memoHits).toBe(0);
+    expect(cheapFirst.success && cheapFirst.cost).toBe(4);
+    expect(cheapFirst.success && cheapFirst.stats?.memoHits).toBe(1);
+  });
+
+  it("requires a stateHash", () => {
+    const domain = makeDeadEndDomain();
+
+    expect(() =>
+      createPlanner({ domain, initialState: { x: 0 }, goals: ["Finish"], memoize: true }).plan()
+    ).toThrow("memoize requires a stateHash");
+  });
+});
+
+// ── Planning statistics ───────────────────────────────────────────────────────
+
+describe("createPlanner – planning statistics", () => {
+  const initialState: RobotState = { location: "Hall", hasItem: false, batteryLevel: 100 };
+
+  it("counts the work of a successful search, matching the hooks", () => {
+    const counts = { expansions: 0, methodTries: 0, backtracks: 0, operatorApplications: 0 };
+    const domain: Domain<RobotState> = {
+      ...makeRobotDomain(),
+      compoundTasks: {
+        FetchCoffee: {
+          name: "FetchCoffee",
+          methods: [
+            {
+              name: "Shortcut",
+              condition: () => true,
+              subtasks: ["MoveToKitchen", "ReturnToStart"],
+            },
+            ...makeRobotDomain().compoundTasks.FetchCoffee.methods,
+          ],
+        },
+      },
+    };
+
+    const result = createPlanner({
+      domain,
+      initialState,
+      goals: ["FetchCoffee"],
+      hooks: {
+        onTaskExpand: () => counts.expansions++,
+        onMethodTry: () => counts.methodTries++,
+        onBacktrack: () => counts.backtracks++,
+        onOperatorApply: () => counts.operatorApplications++,
+      },
+    }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.stats).toEqual({
+      ...counts,
+      maxSearchDepth: 3,
+      elapsedMs: expect.any(Number),
+    });
+    expect(counts).toEqual({
+      expansions: 6,
+      methodTries: 2,
+      backtracks: 1,
+      operatorApplications: 4,
+    });
+  });
+
+  it("reports statistics on failure", () => {
+    const result = createPlanner({
+      domain: makeRobotDomain(),
+      initialState: { ...initialState, batteryLevel: 0 },
+      goals: ["FetchCoffee"],
+    }).plan();
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.stats).toEqual({
+      expansions: 2,
+      methodTries: 1,
+      backtracks: 1,
+      operatorApplications: 0,
+      maxSearchDepth: 1,
+      elapsedMs: expect.any(Number),
+    });
+  });
+
+  it("reports empty statistics when a task is unknown", () => {
+    const result = createPlanner({ domain: makeRobotDomain(), initialState, goals: ["Fly"] }).plan();
+
+    expect(result.stats).toEqual({
+      expansions: 0,
+      methodTries: 0,
+      backtracks: 0,
+      operatorApplications: 0,
+      maxSearchDepth: 0,
+      elapsedMs: 0,
+    });
+  });
+});
+
+// ── Partially ordered subtasks ────────────────────────────────────────────────
+
+describe("createPlanner – partially ordered subtasks", () => {
+  interface Morning {
+    kettle: "off" | "on" | "boiled";
+    lidOpen: boolean;
+    log: string[];
+  }
+
+  const morning: Morning = { kettle: "off", lidOpen: false, log: [] };
+
+  function op(
+    name: string,
+    condition: (s: Morning) => boolean,
+    effect: (s: Morning) => Partial<Morning>
+  ): Operator<Morning> {
+    return { name, condition, effect: (s) => ({ ...s, ...effect(s), log: [...s.log, name] }) };
+  }
+
+  /** Tea needs the kettle started, then something else done while it boils. */
+  function makeMorningDomain(ordering?: ReadonlyArray<readonly [number, number]>): Domain<Morning> {
+    return {
+      operators: {
+        OpenLid: op("OpenLid", (s) => s.kettle === "off", () => ({ lidOpen: true })),
+        StartKettle: op("StartKettle", (s) => s.lidOpen, () => ({ kettle: "on" })),
+        Shower: op("Shower", () => true, (s) => (s.kettle === "on" ? { kettle: "boiled" } : {})),
+        PourTea: op("PourTea", (s) => s.kettle === "boiled", () => ({})),
+      },
+      compoundTasks: {
+        MakeTea: {
+          name: "MakeTea",
+          methods: [{ name: "Brew", condition: () => true, subtasks: ["StartKettle", "PourTea"] }],
+        },
+        Morning: {
+          name: "Morning",
+          methods: [
+            {
+              name: "Routine",
+              condition: () => true,
+              subtasks: ["MakeTea", "Shower", "OpenLid"],
+              ordering: ordering ?? [[2, 0]],
+            },
+          ],
+        },
+      },
+    };
+  }
+
+  it("explores the orders the constraints allow", () => {
+    const domain = makeMorningDomain([]);
+    domain.compoundTasks.Prepare = {
+      name: "Prepare",
+      methods: [
+        {
+          name: "LidThenKettle",
+          condition: () => true,
+          subtasks: ["StartKettle", "OpenLid", "Shower", "PourTea"],
+          ordering: [
+            [1, 0],
+            [0, 3],
+            [2, 3],
+          ],
+        },
+      ],
+    };
+
+    const result = createPlanner({ domain, initialState: morning, goals: ["Prepare"] }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.finalState.log).toEqual(["OpenLid", "StartKettle", "Shower", "PourTea"]);
+  });
+
+  it("interleaves the subtasks of sibling tasks", () => {
+    const result = createPlanner({
+      domain: makeMorningDomain(),
+      initialState: morning,
+      goals: ["Morning"],
+    }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.finalState.log).toEqual(["OpenLid", "StartKettle", "Shower", "PourTea"]);
+    const [routine] = result.tree;
+    expect(routine.kind === "compound" && routine.children.map((child) => child.task)).toEqual([
+      "OpenLid",
+      "MakeTea",
+      "Shower",
+    ]);
+  });
+
+  it("keeps the listed order when a method declares no ordering", () => {
+    const domain = makeMorningDomain();
+    const [routine] = domain.compoundTasks.Morning.methods;
+    domain.compoundTasks.Morning.methods = [
+      { ...routine, subtasks: ["OpenLid", "MakeTea", "Shower"], ordering: undefined },
+    ];
+
+    const result = createPlanner({ domain, initialState: morning, goals: ["Morning"] }).plan();
+
+    expect(result.success).toBe(false);
+  });
+
+  it("never runs a subtask before the ones it has to follow", () => {
+    const result = createPlanner({
+      domain: makeMorningDomain([
+        [2, 1],
+        [1, 0],
+      ]),
+      initialState: morning,
+      goals: ["Morning"],
+    }).plan();
+
+    expect(result.success).toBe(false);
+  });
+
+  it("interleaves goals given a goalOrdering", () => {
+    const goals = ["OpenLid", "MakeTea", "Shower"];
+
+    const ordered = createPlanner({
+      domain: makeMorningDomain(),
+      initialState: morning,
+      goals,
+    }).plan();
+    const unordered = createPlanner({
+      domain: makeMorningDomain(),
+      initialState: morning,
+      goals,
+      goalOrdering: [[0, 1]],
+    }).plan();
+
+    expect(ordered.success).toBe(false);
+    expect(unordered.success).toBe(true);
+    if (!unordered.success) return;
+    expect(unordered.finalState.log).toEqual(["OpenLid", "StartKettle", "Shower", "PourTea"]);
+  });
+
+  it("finds the cheapest order in optimal mode", () => {
+    const domain: Domain<{ at: number }> = {
+      operators: {
+        Visit1: { name: "Visit1", condition: () => true, effect: () => ({ at: 1 }), cost: 1 },
+        Visit5: {
+          name: "Visit5",
+          condition: () => true,
+          effect: () => ({ at: 5 }),
+          cost: (s) => Math.abs(5 - s.at),
+        },
+        Visit3: {
+          name: "Visit3",
+          condition: () => true,
+          effect: () => ({ at: 3 }),
+          cost: (s) => Math.abs(3 - s.at),
+        },
+      },
+      compoundTasks: {
+        Tour: {
+          name: "Tour",
+          methods: [
+            {
+              name: "AnyOrder",
+              condition: () => true,
+              subtasks: ["Visit5", "Visit1", "Visit3"],
+              ordering: [],
+            },
+          ],
+        },
+      },
+    };
+
+    const result = createPlanner({
+      domain,
+      initialState: { at: 0 },
+      goals: ["Tour"],
+      strategy: "optimal",
+    }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.plan.map((o) => o.name)).toEqual(["Visit1", "Visit3", "Visit5"]);
+    expect(result.cost).toBe(5);
+  });
+
+  it("does not try compound expansions in every order", () => {
+    const domain: Domain<boolean[]> = {
+      operators: {
+        Never: { name: "Never", condition: () => false, effect: (s) => s },
+      },
+      compoundTasks: {},
+    };
+    const goals = ["Never"];
+    for (let i = 0; i < 5; i++) {
+      domain.operators[`Step${i}`] = {
+        name: `Step${i}`,
+        condition: () => true,
+        effect: (s) => s.map((done, j) => done || j === i),
+      };
+      domain.compoundTasks[`Wrap${i}`] = {
+        name: `Wrap${i}`,
+        methods: [{ name: "Only", condition: () => true, subtasks: [`Step${i}`] }],
+      };
+      goals.unshift(`Wrap${i}`);
+    }
+
+    const result = createPlanner({
+      domain,
+      initialState: [false, false, false, false, false],
+      goals,
+      goalOrdering: [],
+      maxExpansions: 200_000,
+    }).plan();
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.reason).not.toBe("BUDGET_EXCEEDED");
+    // Every order of the five steps, with each wrapped task expanded in every
+    // state before its step, but two expansions in a row in one order only
+    // (trying both orders takes over 600,000 expansions).
+    expect(result.stats.expansions).toBeLessThan(100_000);
+  });
+
+  it("expands a task before an unordered operator that it cannot be expanded after", () => {
+    const domain: Domain<{ x: boolean }> = {
+      operators: {
+        SetX: { name: "SetX", condition: () => true, effect: () => ({ x: true }) },
+        NeedX: { name: "NeedX", condition: (s) => s.x, effect: (s) => s },
+      },
+      compoundTasks: {
+        A: {
+          name: "A",
+          methods: [{ name: "BeforeX", condition: (s) => !s.x, subtasks: ["NeedX"] }],
+        },
+        Top: {
+          name: "Top",
+          methods: [{ name: "Both", condition: () => true, subtasks: ["A", "SetX"], ordering: [] }],
+        },
+      },
+    };
+
+    const unorderedGoals = createPlanner({
+      domain,
+      initialState: { x: false },
+      goals: ["A", "SetX"],
+      goalOrdering: [],
+    }).plan();
+    const unorderedSubtasks = createPlanner({
+      domain,
+      initialState: { x: false },
+      goals: ["Top"],
+    }).plan();
+
+    for (const result of [unorderedGoals, unorderedSubtasks]) {
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      expect(result.plan.map((o) => o.name)).toEqual(["SetX", "NeedX"]);
+    }
+  });
+
+  it("rejects cyclic or out-of-range ordering constraints", () => {
+    const plan = (ordering: ReadonlyArray<readonly [number, number]>) =>
+      createPlanner({
+        domain: makeMorningDomain(ordering),
+        initialState: morning,
+        goals: ["Morning"],
+      }).plan();
+
+    expect(() =>
+      plan([
+        [0, 1],
+        [1, 0],
+      ])
+    ).toThrow('Method "Routine" has cyclic ordering constraints.');
+    expect(() => plan([[0, 3]])).toThrow(RangeError);
+    expect(() =>
+      createPlanner({
+        domain: makeMorningDomain(),
+        initialState: morning,
+        goals: ["Morning"],
+        goalOrdering: [[0, 0]],
+      }).plan()
+    ).toThrow("goalOrdering has cyclic ordering constraints.");
+  });
+});
+
+// ── Durations and deadlines ───────────────────────────────────────────────────
+
+describe("createPlanner – durations and deadlines", () => {
+  interface Trip {
+    at: string;
+    meals: number;
+  }
+
+  const trip: Trip = { at: "Home", meals: 0 };
+  const hours = (h: number) => h * 60;
+  const cafe = { to: "Cafe" };
+
+  function makeTripDomain(): Domain<Trip> {
+    return {
+      operators: {
+        Walk: {
+          name: "Walk",
+          duration: 40,
+          condition: () => true,
+          effect: (s, args) => ({ ...s, at: args.to as string }),
+        },
+        Drive: {
+          name: "Drive",
+          duration: (s) => (s.at === "Home" ? 15 : 10),
+          condition: () => true,
+          effect: (s, args) => ({ ...s, at: args.to as string }),
+        },
+        Eat: {
+          name: "Eat",
+          duration: 30,
+          condition: () => true,
+          effect: (s) => ({ ...s, meals: s.meals + 1 }),
+        },
+        Nap: { name: "Nap", duration: 20, condition: () => true, effect: (s) => s },
+      },
+      compoundTasks: {
+        GoTo: {
+          name: "GoTo",
+          methods: [
+            { name: "OnFoot", condition: () => true, subtasks: [{ task: "Walk", args: cafe }] },
+            { name: "ByCar", condition: () => true, subtasks: [{ task: "Drive", args: cafe }] },
+          ],
+        },
+        Meal: {
+          name: "Meal",
+          methods: [
+            {
+              name: "Dinner",
+              condition: (_s, _args, time) => time >= hours(18),
+              subtasks: ["Eat", "Eat"],
+            },
+            { name: "Lunch", condition: () => true, subtasks: ["Eat"] },
+          ],
+        },
+        Rest: {
+          name: "Rest",
+          methods: [
+            { name: "Rested", condition: (_s, _args, time) => time >= hours(14), subtasks: [] },
+            { name: "Doze", condition: () => true, subtasks: ["Nap", "Rest"] },
+          ],
+        },
+      },
+    };
+  }
+
+  it("timestamps every step from the start time", () => {
+    const result = createPlanner({
+      domain: makeTripDomain(),
+      initialState: trip,
+      goals: ["GoTo", "Meal"],
+      startTime: hours(12),
+    }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.steps.map(({ operator, start, end }) => [operator.name, start, end])).toEqual([
+      ["Walk", 720, 760],
+      ["Eat", 760, 790],
+    ]);
+    expect(result.endTime).toBe(790);
+  });
+
+  it("starts the clock at 0 and treats operators without a duration as instant", () => {
+    const result = createPlanner({
+      domain: makeRobotDomain(),
+      initialState: { location: "Start", hasItem: false, batteryLevel: 100 },
+      goals: ["FetchCoffee"],
+    }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.steps.every((step) => step.start === 0 && step.end === 0)).toBe(true);
+    expect(result.endTime).toBe(0);
+  });
+
+  it("backtracks out of branches that miss the deadline", () => {
+    const result = createPlanner({
+      domain: makeTripDomain(),
+      initialState: trip,
+      goals: ["GoTo", "Meal"],
+      startTime: hours(12),
+      deadline: hours(12) + 45,
+    }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.plan.map((o) => o.name)).toEqual(["Drive", "Eat"]);
+    expect(result.endTime).toBe(hours(12) + 45);
+  });
+
+  it("fails with DEADLINE_MISSED when no plan meets the deadline", () => {
+    const result = createPlanner({
+      domain: makeTripDomain(),
+      initialState: trip,
+      goals: ["GoTo", "Meal"],
+      deadline: 30,
+    }).plan();
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.reason).toBe("DEADLINE_MISSED");
+    expect(result.failedTask).toBe("Eat");
+  });
+
+  it("lets method conditions read the simulated clock", () => {
+    const plan = (startTime: number) =>
+      createPlanner({
+        domain: makeTripDomain(),
+        initialState: trip,
+        goals: ["Meal"],
+        startTime,
+      }).plan();
+
+    const lunch = plan(hours(12));
+    const dinner = plan(hours(19));
+
+    expect(lunch.success && lunch.tree[0]).toMatchObject({ method: "Lunch" });
+    expect(dinner.success && dinner.tree[0]).toMatchObject({ method: "Dinner" });
+  });
+
+  it("waits for a goal's window to open and keeps it within its latest time", () => {
+    const result = createPlanner({
+      domain: makeTripDomain(),
+      initialState: trip,
+      goals: ["GoTo", "Meal"],
+      startTime: hours(12),
+      goalWindows: [{ latest: hours(12) + 20 }, { earliest: hours(18) }],
+    }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.steps.map(({ operator, start }) => [operator.name, start])).toEqual([
+      ["Drive", 720],
+      ["Eat", 1080],
+      ["Eat", 1110],
+    ]);
+    expect(result.tree[1]).toMatchObject({ method: "Dinner" });
+  });
+
+  it("does not mistake waiting in an unchanged state for a cycle", () => {
+    const result = createPlanner({
+      domain: makeTripDomain(),
+      initialState: trip,
+      goals: ["Rest"],
+      startTime: hours(13),
+      stateHash: (s) => `${s.at}|${s.meals}`,
+    }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.plan).toHaveLength(3);
+    expect(result.endTime).toBe(hours(14));
+  });
+
+  it("rejects negative durations", () => {
+    const domain = makeTripDomain();
+    domain.operators.Nap = { ...domain.operators.Nap, duration: -5 };
+
+    expect(() =>
+      createPlanner({ domain, initialState: trip, goals: ["Rest"] }).plan()
+    ).toThrow(RangeError);
+  });
+});
+
+// ── Goal conditions ───────────────────────────────────────────────────────────
+
+describe("createPlanner – goal conditions", () => {
+  interface Outing {
+    at: string;
+    tired: boolean;
+    money: number;
+  }
+
+  const outing: Outing = { at: "Home", tired: false, money: 2 };
+  const park = { to: "Park" };
+
+  function makeOutingDomain(): Domain<Outing> {
+    return {
+      operators: {
+        Walk: {
+          name: "Walk",
+          condition: () => true,
+          effect: (s, args) => ({ ...s, at: args.to as string, tired: true }),
+        },
+        Ride: {
+          name: "Ride",
+          condition: (s) => s.money >= 2,
+          effect: (s, args) => ({ ...s, at: args.to as string, money: s.money - 2 }),
+        },
+        Sleep: { name: "Sleep", condition: () => true, effect: (s) => ({ ...s, tired: false }) },
+      },
+      compoundTasks: {
+        Travel: {
+          name: "Travel",
+          methods: [
+            {
+              name: "OnFoot",
+              condition: () => true,
+              subtasks: (_s, args) => [{ task: "Walk", args }],
+            },
+            {
+              name: "ByBus",
+              condition: () => true,
+              subtasks: (_s, args) => [{ task: "Ride", args }],
+            },
+          ],
+        },
+        Rest: {
+          name: "Rest",
+          methods: [
+            { name: "Awake", condition: (s) => !s.tired, subtasks: [] },
+            { name: "Nap", condition: () => true, subtasks: ["Sleep"] },
+          ],
+        },
+        Errands: {
+          name: "Errands",
+          methods: [
+            {
+              name: "AnyOrder",
+              condition: () => true,
+              subtasks: [
+                { task: "Walk", args: { to: "Shop" } },
+                { task: "Walk", args: { to: "Home" } },
+              ],
+              ordering: [],
+            },
+          ],
+        },
+      },
+    };
+  }
+
+  it("backtracks out of decompositions whose final state violates the goal condition", () => {
+    const plan = (goalCondition?: (s: Outing) => boolean) =>
+      createPlanner({
+        domain: makeOutingDomain(),
+        initialState: outing,
+        goals: [{ task: "Travel", args: park }],
+        goalCondition,
+      }).plan();
+
+    const anyWay = plan();
+    const rested = plan((s) => !s.tired);
+
+    expect(anyWay.success && anyWay.plan.map((op) => op.name)).toEqual(["Walk"]);
+    expect(rested.success && rested.plan.map((op) => op.name)).toEqual(["Ride"]);
+  });
+
+  it("fails with GOAL_CONDITION_FAILED when every decomposition violates it", () => {
+    const result = createPlanner({
+      domain: makeOutingDomain(),
+      initialState: { ...outing, money: 0 },
+      goals: [{ task: "Travel", args: park }],
+      goalCondition: (s) => !s.tired,
+    }).plan();
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.reason).toBe("GOAL_CONDITION_FAILED");
+    expect(result.failedTask).toBe("(goal condition)");
+    expect(result.deepestFailure?.state.tired).toBe(true);
+    expect(result.deepestFailure).not.toHaveProperty("goal");
+  });
+
+  it("checks a goal's postcondition right after its last step", () => {
+    const plan = (money: number) =>
+      createPlanner({
+        domain: makeOutingDomain(),
+        initialState: { ...outing, money },
+        goals: [{ task: "Travel", args: park }, "Rest"],
+        goalPostconditions: [(s) => !s.tired],
+      }).plan();
+
+    const byBus = plan(2);
+    const stuck = plan(0);
+
+    // Resting afterwards would leave the final state rested, but too late.
+    expect(byBus.success && byBus.plan.map((op) => op.name)).toEqual(["Ride"]);
+    expect(stuck.success).toBe(false);
+    if (stuck.success) return;
+    expect(stuck.reason).toBe("GOAL_CONDITION_FAILED");
+    expect(stuck.failedTask).toBe("Travel");
+    expect(stuck.deepestFailure?.goal).toBe(0);
+  });
+
+  it("checks the postcondition of a goal decomposed into no tasks at all", () => {
+    const result = createPlanner({
+      domain: makeOutingDomain(),
+      initialState: outing,
+      goals: ["Rest"],
+      goalPostconditions: [(s) => s.at === "Park"],
+    }).plan();
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.reason).toBe("GOAL_CONDITION_FAILED");
+    expect(result.failedTask).toBe("Rest");
+    expect(result.stats.backtracks).toBe(2);
+  });
+
+  it("waits for every task of a partially ordered goal before checking it", () => {
+    const result = createPlanner({
+      domain: makeOutingDomain(),
+      initialState: outing,
+      goals: ["Errands"],
+      goalPostconditions: [(s) => s.at === "Home"],
+    }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.steps.map((step) => step.args.to)).toEqual(["Shop", "Home"]);
+  });
+});
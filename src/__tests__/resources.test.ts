@@ -0,0 +1,248 @@
+import { Domain } from "../domain";
+import { createPlanner } from "../planner";
+import { resourceNeeds } from "../resources";
+import type { Operator, Resource } from "../types";
+
+// ── Helper fixtures ───────────────────────────────────────────────────────────
+
+interface CourierState {
+  location: string;
+  battery: number;
+  money: number;
+  parcels: number;
+}
+
+const battery: Resource<CourierState> = {
+  get: (s) => s.battery,
+  set: (s, amount) => ({ ...s, battery: amount }),
+  max: 100,
+};
+
+const money: Resource<CourierState> = {
+  get: (s) => s.money,
+  set: (s, amount) => ({ ...s, money: amount }),
+};
+
+const drive: Operator<CourierState> = {
+  name: "Drive",
+  consumes: { battery: (_s, args) => args.km as number },
+  condition: (s, args) => s.location !== args.to,
+  effect: (s, args) => ({ ...s, location: args.to as string }),
+};
+
+const deliver: Operator<CourierState> = {
+  name: "Deliver",
+  produces: { money: 15 },
+  condition: (s) => s.parcels > 0,
+  effect: (s) => ({ ...s, parcels: s.parcels - 1 }),
+};
+
+const charge: Operator<CourierState> = {
+  name: "Charge",
+  consumes: { money: 10 },
+  produces: { battery: 50 },
+  condition: (s) => s.location === "depot",
+  effect: (s) => s,
+};
+
+const hop: Operator<CourierState> = {
+  name: "Hop",
+  consumes: { battery: 10 },
+  condition: () => true,
+  effect: (s) => s,
+};
+
+function courierDomain(): Domain<CourierState> {
+  return new Domain<CourierState>()
+    .registerResource("battery", battery)
+    .registerResource("money", money)
+    .registerOperator(drive)
+    .registerOperator(deliver)
+    .registerOperator(charge)
+    .registerOperator(hop)
+    .registerMethod("Visit", {
+      name: "DriveThere",
+      condition: () => true,
+      subtasks: (_s, args) => [{ task: "Drive", args }],
+    })
+    .registerMethod("Route", {
+      name: "CityCentre",
+      condition: () => true,
+      subtasks: [
+        { task: "Visit", args: { to: "centre", km: 40 } },
+        "Deliver",
+        { task: "Visit", args: { to: "depot", km: 40 } },
+      ],
+    })
+    .registerMethod("Hops", {
+      name: "ThreeHops",
+      condition: () => true,
+      subtasks: ["Hop", "Hop", "Hop"],
+    });
+}
+
+const atDepot: CourierState = { location: "depot", battery: 60, money: 5, parcels: 1 };
+
+// ── Usage and bounds ──────────────────────────────────────────────────────────
+
+describe("createPlanner – resources", () => {
+  it("updates declared resources and reports their usage per step and in total", () => {
+    const result = createPlanner({
+      domain: courierDomain(),
+      initialState: { ...atDepot, battery: 90 },
+      goals: ["Route"],
+    }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.steps.map((step) => step.resources)).toEqual([
+      { battery: { consumed: 40, produced: 0 } },
+      { money: { consumed: 0, produced: 15 } },
+      { battery: { consumed: 40, produced: 0 } },
+    ]);
+    expect(result.resources).toEqual({
+      battery: { consumed: 80, produced: 0 },
+      money: { consumed: 0, produced: 15 },
+    });
+    expect(result.finalState).toEqual({ location: "depot", battery: 10, money: 20, parcels: 0 });
+  });
+
+  it("only applies an operator when every resource stays within its bounds", () => {
+    const domain = courierDomain().registerMethod("Route", {
+      name: "ChargeFirst",
+      condition: () => true,
+      subtasks: ["Deliver", "Charge", "Route"],
+    });
+
+    const result = createPlanner({
+      domain,
+      initialState: { ...atDepot, battery: 40, parcels: 2 },
+      goals: ["Route"],
+    }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.plan.map((op) => op.name)).toEqual([
+      "Deliver",
+      "Charge",
+      "Drive",
+      "Deliver",
+      "Drive",
+    ]);
+    expect(result.finalState.battery).toBe(10);
+    expect(result.finalState.money).toBe(25);
+  });
+
+  it("fails with RESOURCE_BOUNDS_EXCEEDED naming the resource", () => {
+    const result = createPlanner({
+      domain: courierDomain(),
+      initialState: atDepot,
+      goals: ["Route"],
+    }).plan();
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.reason).toBe("RESOURCE_BOUNDS_EXCEEDED");
+    expect(result.failedTask).toBe("Drive");
+    expect(result.deepestFailure?.resource).toBe("battery");
+  });
+
+  it("rejects production beyond a resource's max", () => {
+    const result = createPlanner({
+      domain: courierDomain(),
+      initialState: { ...atDepot, money: 20 },
+      goals: ["Charge"],
+    }).plan();
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.reason).toBe("RESOURCE_BOUNDS_EXCEEDED");
+    expect(result.deepestFailure?.resource).toBe("battery");
+  });
+
+  it("prunes a branch whose remaining tasks are bound to run out", () => {
+    const result = createPlanner({
+      domain: courierDomain(),
+      initialState: { ...atDepot, battery: 25 },
+      goals: ["Hops"],
+    }).plan();
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.reason).toBe("RESOURCE_BOUNDS_EXCEEDED");
+    expect(result.failedTask).toBe("Hops");
+    expect(result.stats.operatorApplications).toBe(0);
+  });
+
+  it("does not prune when later tasks may produce what is missing", () => {
+    const result = createPlanner({
+      domain: courierDomain(),
+      initialState: { ...atDepot, battery: 25, money: 10 },
+      goals: ["Hop", "Hop", "Charge", "Hop"],
+    }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.finalState.battery).toBe(45);
+  });
+
+  it("leaves results of domains without resources unchanged", () => {
+    const domain = new Domain<CourierState>().registerOperator({
+      name: "Wait",
+      condition: () => true,
+      effect: (s) => s,
+    });
+
+    const result = createPlanner({ domain, initialState: atDepot, goals: ["Wait"] }).plan();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result).not.toHaveProperty("resources");
+    expect(result.steps[0]).not.toHaveProperty("resources");
+  });
+
+  it("rejects undeclared resources and negative amounts", () => {
+    const domain = courierDomain()
+      .registerOperator({ ...hop, name: "Fly", consumes: { fuel: 1 } })
+      .registerOperator({ ...hop, name: "Leak", consumes: { battery: -1 } });
+    const plan = (goal: string) =>
+      createPlanner({ domain, initialState: atDepot, goals: [goal] }).plan();
+
+    expect(() => plan("Fly")).toThrow(TypeError);
+    expect(() => plan("Leak")).toThrow(RangeError);
+  });
+});
+
+// ── resourceNeeds ─────────────────────────────────────────────────────────────
+
+describe("resourceNeeds", () => {
+  it("bounds the net consumption of every task from below", () => {
+    const needs = resourceNeeds(courierDomain());
+
+    expect(needs.get("Hop")).toEqual([10, 0]);
+    expect(needs.get("Charge")).toEqual([-50, 10]);
+    expect(needs.get("Hops")).toEqual([30, 0]);
+    // Drive's amount is computed from its arguments, and Visit's subtasks
+    // from the state.
+    expect(needs.get("Drive")).toEqual([0, 0]);
+    expect(needs.get("Route")).toEqual([-Infinity, -Infinity]);
+  });
+
+  it("treats unlimited production and impossible tasks as such", () => {
+    const domain = courierDomain()
+      .registerMethod("Earn", { name: "Done", condition: () => true, subtasks: [] })
+      .registerMethod("Earn", {
+        name: "More",
+        condition: () => true,
+        subtasks: ["Deliver", "Earn"],
+      })
+      .registerMethod("Stuck", { name: "Forever", condition: () => true, subtasks: ["Stuck"] })
+      .registerMethod("Save", { name: "Some", condition: () => true, subtasks: ["Hop", "Save"] })
+      .registerMethod("Save", { name: "None", condition: () => true, subtasks: [] });
+    const needs = resourceNeeds(domain);
+
+    expect(needs.get("Earn")).toEqual([0, -Infinity]);
+    expect(needs.get("Stuck")).toEqual([Infinity, Infinity]);
+    expect(needs.get("Save")).toEqual([0, 0]);
+  });
+});
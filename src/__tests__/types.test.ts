@@ -34,14 +34,14 @@ describe("Operator<TState> type", () => {
     };
 
     expect(moveOperator.name).toBe("Move");
-    expect(moveOperator.condition({ location: "Hall", hasItem: false, batteryLevel: 10 })).toBe(true);
-    expect(moveOperator.condition({ location: "Hall", hasItem: false, batteryLevel: 0 })).toBe(false);
+    expect(moveOperator.condition({ location: "Hall", hasItem: false, batteryLevel: 10 }, {})).toBe(true);
+    expect(moveOperator.condition({ location: "Hall", hasItem: false, batteryLevel: 0 }, {})).toBe(false);
 
-    const next = moveOperator.effect({ location: "Hall", hasItem: false, batteryLevel: 10 });
+    const next = moveOperator.effect({ location: "Hall", hasItem: false, batteryLevel: 10 }, {});
     expect(next.location).toBe("Kitchen");
     // Effect must not mutate the original (tested at runtime level).
     const original: RobotState = { location: "Hall", hasItem: false, batteryLevel: 10 };
-    moveOperator.effect(original);
+    moveOperator.effect(original, {});
     expect(original.location).toBe("Hall");
   });
 
@@ -52,8 +52,8 @@ describe("Operator<TState> type", () => {
       effect: (s) => ({ ...s, hasItem: true }),
     };
 
-    expect(op.condition({ location: "A", hasItem: true, batteryLevel: 5 })).toBe(false);
-    expect(op.condition({ location: "A", hasItem: false, batteryLevel: 5 })).toBe(true);
+    expect(op.condition({ location: "A", hasItem: true, batteryLevel: 5 }, {})).toBe(false);
+    expect(op.condition({ location: "A", hasItem: false, batteryLevel: 5 }, {})).toBe(true);
   });
 });
 
@@ -68,9 +68,9 @@ describe("Method<TState> type", () => {
     };
 
     expect(walkMethod.name).toBe("WalkToKitchen");
-    expect(walkMethod.subtasks).toHaveLength(2);
-    expect(walkMethod.subtasks[0]).toBe("TurnLeft");
-    expect(walkMethod.condition({ location: "Hall", hasItem: false, batteryLevel: 5 })).toBe(true);
+    expect(walkMethod.subtasks).toEqual(["TurnLeft", "MoveForward"]);
+    const hall = { location: "Hall", hasItem: false, batteryLevel: 5 };
+    expect(walkMethod.condition(hall, {}, 0)).toBe(true);
   });
 });
 
@@ -151,11 +151,26 @@ describe("PlannerConfig<TState> type", () => {
 
 // ── PlanningResult discriminated union ───────────────────────────────────────
 
+const noStats = {
+  expansions: 0,
+  methodTries: 0,
+  backtracks: 0,
+  operatorApplications: 0,
+  maxSearchDepth: 0,
+  elapsedMs: 0,
+};
+
 describe("PlanningResult<TState> discriminated union", () => {
   it("narrows correctly to PlanningSuccess", () => {
     const success: PlanningResult<RobotState> = {
       success: true,
       plan: [],
+      steps: [],
+      cost: 0,
+      endTime: 0,
+      finalState: { location: "Start", hasItem: false, batteryLevel: 100 },
+      tree: [],
+      stats: noStats,
     };
 
     if (success.success) {
@@ -170,6 +185,7 @@ describe("PlanningResult<TState> discriminated union", () => {
       success: false,
       reason: "NO_APPLICABLE_METHOD",
       failedTask: "Travel",
+      stats: noStats,
     };
 
     if (!failure.success) {
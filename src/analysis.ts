@@ -0,0 +1,182 @@
+import type {
+  Domain,
+  DomainAnalysis,
+  DuplicateMethodName,
+  MethodLocation,
+  TaskRef,
+  UnresolvedReference,
+} from "./types";
+import { staticSubtasks, taskName } from "./tasks";
+
+/** Own-property lookup, so names like `"constructor"` never resolve by accident. */
+function has(obj: Record<string, unknown>, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(obj, key);
+}
+
+/** Number of single-character edits that turn `a` into `b`. */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Returns up to three of `candidates` that look like misspellings of `name`
+ * (a case-insensitive match, or a few edits away), closest first.
+ */
+export function suggestTaskNames(name: string, candidates: Iterable<string>): string[] {
+  const maxDistance = Math.max(1, Math.floor(name.length / 3));
+  const scored: Array<{ candidate: string; distance: number }> = [];
+  for (const candidate of candidates) {
+    const distance =
+      candidate.toLowerCase() === name.toLowerCase() ? 0 : editDistance(name, candidate);
+    if (distance <= maxDistance) scored.push({ candidate, distance });
+  }
+  return scored
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, 3)
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * Finds compound tasks that can decompose into themselves. Every back edge
+ * met by a depth-first walk of the compound-task graph yields one cycle, so
+ * each recursive structure is reported at least once without enumerating
+ * every elementary cycle.
+ */
+function findCycles(edges: Map<string, string[]>): string[][] {
+  const cycles: string[][] = [];
+  const visited = new Set<string>();
+  const path: string[] = [];
+
+  function visit(task: string): void {
+    visited.add(task);
+    path.push(task);
+    for (const next of edges.get(task) ?? []) {
+      const onPath = path.indexOf(next);
+      if (onPath !== -1) {
+        cycles.push([...path.slice(onPath), next]);
+      } else if (!visited.has(next)) {
+        visit(next);
+      }
+    }
+    path.pop();
+  }
+
+  for (const task of edges.keys()) {
+    if (!visited.has(task)) visit(task);
+  }
+  return cycles;
+}
+
+/**
+ * Inspects the structure of a domain and reports every problem found at
+ * once, rather than throwing on the first one like {@link Domain.validate}.
+ *
+ * Reachability is only computed when `goals` are given. Subtask lists that
+ * are computed at planning time cannot be inspected: tasks referenced only
+ * from them are reported as unreachable, and the methods are listed in
+ * `computedSubtasks`.
+ *
+ * @example
+ * ```ts
+ * const report = analyzeDomain(domain, ["FetchCoffee"]);
+ * for (const ref of report.unresolvedReferences) {
+ *   console.warn(`${ref.task}/${ref.method} references unknown task ${ref.subtask}`);
+ * }
+ * ```
+ */
+export function analyzeDomain<TState>(
+  domain: Domain<TState>,
+  goals?: ReadonlyArray<TaskRef>
+): DomainAnalysis {
+  const operators = domain.operators as Record<string, unknown>;
+  const compounds = domain.compoundTasks as Record<string, unknown>;
+  const isKnown = (name: string): boolean => has(operators, name) || has(compounds, name);
+
+  const unresolvedReferences: UnresolvedReference[] = [];
+  const tasksWithoutMethods: string[] = [];
+  const emptyMethods: MethodLocation[] = [];
+  const computedSubtasks: MethodLocation[] = [];
+  const methodLocations = new Map<string, Array<{ task: string; index: number }>>();
+  /** Static subtask names of each compound task, in declaration order. */
+  const subtaskNames = new Map<string, string[]>();
+
+  for (const [task, compound] of Object.entries(domain.compoundTasks)) {
+    if (compound.methods.length === 0) tasksWithoutMethods.push(task);
+    const names: string[] = [];
+
+    for (const [position, method] of compound.methods.entries()) {
+      const location = { task, index: position };
+      const locations = methodLocations.get(method.name);
+      if (locations === undefined) methodLocations.set(method.name, [location]);
+      else locations.push(location);
+
+      const subtasks = staticSubtasks(method);
+      if (subtasks === null) {
+        computedSubtasks.push({ task, method: method.name });
+        continue;
+      }
+      if (subtasks.length === 0) emptyMethods.push({ task, method: method.name });
+      subtasks.forEach((ref, index) => {
+        const subtask = taskName(ref);
+        names.push(subtask);
+        if (!isKnown(subtask)) {
+          unresolvedReferences.push({ task, method: method.name, subtask, index });
+        }
+      });
+    }
+    subtaskNames.set(task, names);
+  }
+
+  const duplicateMethodNames: DuplicateMethodName[] = [];
+  for (const [method, locations] of methodLocations) {
+    if (locations.length > 1) duplicateMethodNames.push({ method, locations });
+  }
+
+  // Recursion only passes through compound tasks, so operators and unknown
+  // names are left out of the graph.
+  const edges = new Map<string, string[]>();
+  for (const [task, names] of subtaskNames) {
+    edges.set(task, [...new Set(names.filter((name) => has(compounds, name)))]);
+  }
+  const cycles = findCycles(edges);
+
+  const unreachableOperators: string[] = [];
+  const unreachableTasks: string[] = [];
+  if (goals !== undefined) {
+    const reached = new Set<string>();
+    const queue: string[] = [];
+    goals.forEach((ref, index) => {
+      const goal = taskName(ref);
+      if (!isKnown(goal)) unresolvedReferences.push({ subtask: goal, index });
+      queue.push(goal);
+    });
+    while (queue.length > 0) {
+      const task = queue.pop()!;
+      if (reached.has(task)) continue;
+      reached.add(task);
+      queue.push(...(subtaskNames.get(task) ?? []));
+    }
+    unreachableOperators.push(...Object.keys(domain.operators).filter((op) => !reached.has(op)));
+    unreachableTasks.push(...Object.keys(domain.compoundTasks).filter((t) => !reached.has(t)));
+  }
+
+  return {
+    unresolvedReferences,
+    cycles,
+    unreachableOperators,
+    unreachableTasks,
+    tasksWithoutMethods,
+    duplicateMethodNames,
+    emptyMethods,
+    computedSubtasks,
+  };
+}
@@ -0,0 +1,420 @@
+import type {
+  Domain,
+  DomainDefinition,
+  Method,
+  MethodDefinition,
+  Operator,
+  OperatorDefinition,
+  SchemaIssue,
+  TaskArgs,
+  TaskRef,
+} from "./types";
+import { DomainSchemaError } from "./errors";
+
+/** A compiled {@link Expression}. */
+type Evaluator = (state: unknown, args: TaskArgs) => unknown;
+
+/** Operators and methods compiled from a {@link DomainDefinition}, in document order. */
+export interface CompiledDomain<TState> {
+  operators: Operator<TState>[];
+  methods: Array<[task: string, method: Method<TState>]>;
+}
+
+const COMPARISONS: Record<string, (a: unknown, b: unknown) => boolean> = {
+  "==": (a, b) => a === b,
+  "!=": (a, b) => a !== b,
+  "<": (a, b) => (a as number) < (b as number),
+  "<=": (a, b) => (a as number) <= (b as number),
+  ">": (a, b) => (a as number) > (b as number),
+  ">=": (a, b) => (a as number) >= (b as number),
+};
+
+/**
+ * The definition each compiled operator and method was built from, so a
+ * declaratively built domain can be serialized again.
+ */
+const definitions = new WeakMap<object, OperatorDefinition | MethodDefinition>();
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isLiteral(value: unknown): boolean {
+  return value === null || ["string", "number", "boolean"].includes(typeof value);
+}
+
+function field(path: string, key: string): string {
+  return path === "" ? key : `${path}.${key}`;
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+/** Reports every property of `obj` not listed in `allowed`. */
+function checkKeys(
+  obj: Record<string, unknown>,
+  allowed: ReadonlyArray<string>,
+  path: string,
+  issues: SchemaIssue[]
+): void {
+  for (const key of Object.keys(obj)) {
+    if (!allowed.includes(key)) {
+      issues.push({ path: field(path, key), message: `unknown property "${key}"` });
+    }
+  }
+}
+
+/** Splits a state path into its segments, reporting an invalid path. */
+function parsePath(value: unknown, path: string, issues: SchemaIssue[]): string[] {
+  if (typeof value !== "string" || value === "" || value.split(".").includes("")) {
+    issues.push({ path, message: 'expected a state path such as "robot.location"' });
+    return [];
+  }
+  return value.split(".");
+}
+
+function readPath(state: unknown, segments: ReadonlyArray<string>): unknown {
+  let current = state;
+  for (const segment of segments) {
+    if (typeof current !== "object" || current === null) return undefined;
+    if (!Object.prototype.hasOwnProperty.call(current, segment)) return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+/** Returns a copy of `state` with `value` stored at `segments`, copying only along the path. */
+function writePath(state: unknown, segments: ReadonlyArray<string>, value: unknown): unknown {
+  if (segments.length === 0) return value;
+  const copy: Record<string, unknown> = Array.isArray(state)
+    ? ([...state] as unknown as Record<string, unknown>)
+    : isRecord(state)
+      ? { ...state }
+      : {};
+  const [head, ...rest] = segments;
+  copy[head] = writePath(copy[head], rest, value);
+  return copy;
+}
+
+function compileExpression(expr: unknown, path: string, issues: SchemaIssue[]): Evaluator {
+  if (isLiteral(expr)) return () => expr;
+  if (!isRecord(expr) || Object.keys(expr).length !== 1) {
+    issues.push({ path, message: "expected a literal or an object with exactly one operator" });
+    return () => undefined;
+  }
+
+  const [op] = Object.keys(expr);
+  const operand = expr[op];
+  const at = field(path, op);
+
+  if (op === "var") {
+    const segments = parsePath(operand, at, issues);
+    return (state) => readPath(state, segments);
+  }
+  if (op === "arg") {
+    if (typeof operand !== "string" || operand === "") {
+      issues.push({ path: at, message: "expected an argument name" });
+    }
+    const name = operand as string;
+    return (_state, args) =>
+      Object.prototype.hasOwnProperty.call(args, name) ? args[name] : undefined;
+  }
+  if (op === "not") {
+    const inner = compileExpression(operand, at, issues);
+    return (state, args) => !inner(state, args);
+  }
+  if (op === "and" || op === "or") {
+    if (!Array.isArray(operand)) {
+      issues.push({ path: at, message: "expected an array of expressions" });
+      return () => undefined;
+    }
+    const parts = operand.map((part, i) => compileExpression(part, `${at}[${i}]`, issues));
+    return op === "and"
+      ? (state, args) => parts.every((part) => Boolean(part(state, args)))
+      : (state, args) => parts.some((part) => Boolean(part(state, args)));
+  }
+  if (Object.prototype.hasOwnProperty.call(COMPARISONS, op)) {
+    if (!Array.isArray(operand) || operand.length !== 2) {
+      issues.push({ path: at, message: "expected an array of two expressions" });
+      return () => undefined;
+    }
+    const compare = COMPARISONS[op];
+    const left = compileExpression(operand[0], `${at}[0]`, issues);
+    const right = compileExpression(operand[1], `${at}[1]`, issues);
+    return (state, args) => compare(left(state, args), right(state, args));
+  }
+
+  issues.push({ path, message: `unknown operator "${op}"` });
+  return () => undefined;
+}
+
+/** Compiles one effect into a step from the state so far (and the state before) to the next. */
+function compileEffect(
+  effect: unknown,
+  path: string,
+  issues: SchemaIssue[]
+): (state: unknown, before: unknown, args: TaskArgs) => unknown {
+  if (isRecord(effect) && "set" in effect) {
+    checkKeys(effect, ["set", "value"], path, issues);
+    const segments = parsePath(effect.set, field(path, "set"), issues);
+    if (!("value" in effect)) {
+      issues.push({ path: field(path, "value"), message: "missing value" });
+    }
+    const value = compileExpression(effect.value, field(path, "value"), issues);
+    return (state, before, args) => writePath(state, segments, value(before, args));
+  }
+  if (isRecord(effect) && "increment" in effect) {
+    checkKeys(effect, ["increment", "by"], path, issues);
+    const segments = parsePath(effect.increment, field(path, "increment"), issues);
+    const by = "by" in effect ? compileExpression(effect.by, field(path, "by"), issues) : () => 1;
+    return (state, before, args) => {
+      const current = readPath(state, segments);
+      const base = typeof current === "number" ? current : 0;
+      return writePath(state, segments, base + Number(by(before, args)));
+    };
+  }
+  issues.push({ path, message: 'expected an effect with "set" or "increment"' });
+  return (state) => state;
+}
+
+function compileOperator<TState>(
+  name: string,
+  definition: unknown,
+  path: string,
+  issues: SchemaIssue[]
+): Operator<TState> | null {
+  if (!isRecord(definition)) {
+    issues.push({ path, message: "expected an operator object" });
+    return null;
+  }
+  checkKeys(definition, ["condition", "effect", "cost"], path, issues);
+
+  const condition =
+    definition.condition === undefined
+      ? () => true
+      : compileExpression(definition.condition, field(path, "condition"), issues);
+
+  const effectPath = field(path, "effect");
+  const effects: ReturnType<typeof compileEffect>[] = [];
+  if (definition.effect !== undefined && !Array.isArray(definition.effect)) {
+    issues.push({ path: effectPath, message: "expected an array of effects" });
+  } else {
+    (definition.effect ?? []).forEach((effect: unknown, i: number) =>
+      effects.push(compileEffect(effect, `${effectPath}[${i}]`, issues))
+    );
+  }
+
+  const operator: Operator<TState> = {
+    name,
+    condition: (state, args) => Boolean(condition(state, args)),
+    effect: (state, args) =>
+      effects.reduce<unknown>((next, apply) => apply(next, state, args), state) as TState,
+  };
+
+  if (definition.cost !== undefined) {
+    const costPath = field(path, "cost");
+    if (typeof definition.cost === "number") {
+      if (!(definition.cost >= 0)) {
+        issues.push({ path: costPath, message: "expected a non-negative number" });
+      }
+      operator.cost = definition.cost;
+    } else if (isLiteral(definition.cost)) {
+      issues.push({ path: costPath, message: "expected a number or an expression" });
+    } else {
+      const cost = compileExpression(definition.cost, costPath, issues);
+      operator.cost = (state, args) => Number(cost(state, args));
+    }
+  }
+
+  definitions.set(operator, clone(definition) as OperatorDefinition);
+  return operator;
+}
+
+/** Compiles a subtask reference; returns a function when its arguments are not all literals. */
+function compileSubtask(
+  subtask: unknown,
+  path: string,
+  issues: SchemaIssue[]
+): TaskRef | ((state: unknown, args: TaskArgs) => TaskRef) {
+  if (typeof subtask === "string" && subtask !== "") return subtask;
+  if (!isRecord(subtask) || typeof subtask.task !== "string" || subtask.task === "") {
+    issues.push({ path, message: 'expected a task name or { "task": name, "args": {...} }' });
+    return "";
+  }
+  checkKeys(subtask, ["task", "args"], path, issues);
+  const task = subtask.task;
+  if (subtask.args === undefined) return { task };
+  if (!isRecord(subtask.args)) {
+    issues.push({ path: field(path, "args"), message: "expected an object of expressions" });
+    return { task };
+  }
+
+  const entries = Object.entries(subtask.args);
+  if (entries.every(([, value]) => isLiteral(value))) {
+    return { task, args: Object.fromEntries(entries) };
+  }
+  const compiled = entries.map(
+    ([key, value]) =>
+      [key, compileExpression(value, field(field(path, "args"), key), issues)] as const
+  );
+  return (state, args) => ({
+    task,
+    args: Object.fromEntries(compiled.map(([key, value]) => [key, value(state, args)])),
+  });
+}
+
+function compileMethod<TState>(
+  definition: unknown,
+  path: string,
+  issues: SchemaIssue[]
+): Method<TState> | null {
+  if (!isRecord(definition)) {
+    issues.push({ path, message: "expected a method object" });
+    return null;
+  }
+  checkKeys(definition, ["name", "condition", "subtasks"], path, issues);
+  if (typeof definition.name !== "string" || definition.name === "") {
+    issues.push({ path: field(path, "name"), message: "expected a non-empty method name" });
+  }
+
+  const condition =
+    definition.condition === undefined
+      ? () => true
+      : compileExpression(definition.condition, field(path, "condition"), issues);
+
+  const subtasksPath = field(path, "subtasks");
+  let refs: Array<ReturnType<typeof compileSubtask>> = [];
+  if (!Array.isArray(definition.subtasks)) {
+    issues.push({ path: subtasksPath, message: "expected an array of subtasks" });
+  } else {
+    refs = definition.subtasks.map((subtask: unknown, i: number) =>
+      compileSubtask(subtask, `${subtasksPath}[${i}]`, issues)
+    );
+  }
+
+  const staticRefs = refs.filter((ref): ref is TaskRef => typeof ref !== "function");
+  const method: Method<TState> = {
+    name: definition.name as string,
+    condition: (state, args) => Boolean(condition(state, args)),
+    subtasks:
+      staticRefs.length === refs.length
+        ? staticRefs
+        : (state, args) =>
+            refs.map((ref) => (typeof ref === "function" ? ref(state, args) : ref)),
+  };
+  definitions.set(method, clone(definition) as unknown as MethodDefinition);
+  return method;
+}
+
+/**
+ * Validates a declarative domain and compiles it into operators and
+ * methods. `json` may be a {@link DomainDefinition} or its JSON text.
+ *
+ * @throws {DomainSchemaError} listing every schema violation found.
+ */
+export function compileDomain<TState>(json: unknown): CompiledDomain<TState> {
+  const issues: SchemaIssue[] = [];
+  let definition = json;
+  if (typeof json === "string") {
+    try {
+      definition = JSON.parse(json);
+    } catch (err) {
+      const message = `invalid JSON: ${(err as Error).message}`;
+      throw new DomainSchemaError([{ path: "", message }]);
+    }
+  }
+
+  const compiled: CompiledDomain<TState> = { operators: [], methods: [] };
+  if (!isRecord(definition)) {
+    throw new DomainSchemaError([{ path: "", message: "expected a domain object" }]);
+  }
+  checkKeys(definition, ["operators", "compoundTasks"], "", issues);
+
+  if (!isRecord(definition.operators)) {
+    issues.push({ path: "operators", message: "expected an object of operators keyed by name" });
+  } else {
+    for (const [name, operatorDef] of Object.entries(definition.operators)) {
+      const operator = compileOperator<TState>(name, operatorDef, field("operators", name), issues);
+      if (operator !== null) compiled.operators.push(operator);
+    }
+  }
+
+  if (definition.compoundTasks !== undefined && !isRecord(definition.compoundTasks)) {
+    issues.push({
+      path: "compoundTasks",
+      message: "expected an object of compound tasks keyed by name",
+    });
+  } else {
+    for (const [task, taskDef] of Object.entries(definition.compoundTasks ?? {})) {
+      const path = field("compoundTasks", task);
+      if (!isRecord(taskDef)) {
+        issues.push({ path, message: "expected a compound task object" });
+        continue;
+      }
+      checkKeys(taskDef, ["methods"], path, issues);
+      if (!Array.isArray(taskDef.methods) || taskDef.methods.length === 0) {
+        const message = "expected a non-empty array of methods";
+        issues.push({ path: field(path, "methods"), message });
+        continue;
+      }
+      taskDef.methods.forEach((methodDef: unknown, i: number) => {
+        const method = compileMethod<TState>(methodDef, `${field(path, "methods")}[${i}]`, issues);
+        if (method !== null) compiled.methods.push([task, method]);
+      });
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new DomainSchemaError(issues);
+  }
+  return compiled;
+}
+
+/** True when every operator and method of `domain` was compiled by {@link compileDomain}. */
+export function isDeclarative<TState>(domain: Domain<TState>): boolean {
+  return (
+    Object.values(domain.operators).every((operator) => definitions.has(operator)) &&
+    Object.values(domain.compoundTasks).every(({ methods }) =>
+      methods.every((method) => definitions.has(method))
+    )
+  );
+}
+
+/**
+ * Rebuilds the {@link DomainDefinition} of a domain whose operators and
+ * methods were all compiled by {@link compileDomain}.
+ *
+ * @throws {TypeError} if an operator or method was built in code.
+ */
+export function describeDomain<TState>(domain: Domain<TState>): DomainDefinition {
+  const result: DomainDefinition = { operators: {} };
+  for (const [name, operator] of Object.entries(domain.operators)) {
+    const definition = definitions.get(operator);
+    if (definition === undefined) {
+      throw new TypeError(
+        `Operator "${name}" was not loaded from a declarative definition and cannot be serialized.`
+      );
+    }
+    result.operators[name] = clone(definition as OperatorDefinition);
+  }
+
+  const compoundTasks = Object.entries(domain.compoundTasks);
+  if (compoundTasks.length > 0) {
+    result.compoundTasks = {};
+    for (const [task, compound] of compoundTasks) {
+      const methods = compound.methods.map((method) => {
+        const definition = definitions.get(method);
+        if (definition === undefined) {
+          throw new TypeError(
+            `Method "${method.name}" of "${task}" was not loaded from a declarative definition ` +
+              "and cannot be serialized."
+          );
+        }
+        return clone(definition as MethodDefinition);
+      });
+      result.compoundTasks[task] = { methods };
+    }
+  }
+  return result;
+}
@@ -1,5 +1,17 @@
-import type { Domain as IDomain, Operator, Method, CompoundTask } from "./types";
+import type {
+  Domain as IDomain,
+  Operator,
+  Method,
+  CompoundTask,
+  DomainAnalysis,
+  DomainDefinition,
+  DomainValidationIssue,
+  Resource,
+  TaskRef,
+} from "./types";
 import { DomainValidationError } from "./errors";
+import { analyzeDomain, suggestTaskNames } from "./analysis";
+import { compileDomain, describeDomain, isDeclarative } from "./declarative";
 
 /**
  * A mutable registry that builds a Domain by incrementally registering
@@ -26,9 +38,50 @@ export class Domain<TState> implements IDomain<TState> {
    *  immediately. */
   readonly compoundTasks: Record<string, CompoundTask<TState>> = {};
 
+  /** Resources operators consume and produce, keyed by name. */
+  readonly resources: Record<string, Resource<TState>> = {};
+
   /** Mutable backing store for each compound task's method list. */
   private readonly _compoundMethods: Record<string, Method<TState>[]> = {};
 
+  /**
+   * Builds a domain from its declarative, serializable form (see
+   * {@link DomainDefinition}). Conditions, effects and costs are written in a
+   * small expression language over state paths and compiled into ordinary
+   * operators and methods. Accepts the definition object (e.g. parsed from
+   * YAML) or JSON text.
+   *
+   * @throws {DomainSchemaError} listing every problem when `json` does not
+   *         match the schema.
+   *
+   * @example
+   * ```ts
+   * const domain = Domain.fromJSON<RobotState>({
+   *   operators: {
+   *     MoveToKitchen: {
+   *       condition: { ">": [{ var: "batteryLevel" }, 0] },
+   *       effect: [
+   *         { set: "location", value: "Kitchen" },
+   *         { increment: "batteryLevel", by: -10 },
+   *       ],
+   *     },
+   *   },
+   *   compoundTasks: {
+   *     FetchCoffee: { methods: [{ name: "Walk", subtasks: ["MoveToKitchen"] }] },
+   *   },
+   * });
+   * ```
+   */
+  static fromJSON<TState = Record<string, unknown>>(
+    json: DomainDefinition | string
+  ): Domain<TState> {
+    const { operators, methods } = compileDomain<TState>(json);
+    const domain = new Domain<TState>();
+    operators.forEach((operator) => domain.registerOperator(operator));
+    methods.forEach(([task, method]) => domain.registerMethod(task, method));
+    return domain;
+  }
+
   /**
    * Register a primitive task (Operator).
    * Overwrites any existing operator with the same name.
@@ -70,6 +123,31 @@ export class Domain<TState> implements IDomain<TState> {
     return this;
   }
 
+  /**
+   * Declare a numeric resource held in the state that operators may
+   * consume and produce (see {@link Operator.consumes}).
+   * Overwrites any existing resource with the same name.
+   *
+   * @throws {TypeError} if `name` is an empty string.
+   * @returns `this` for fluent chaining.
+   *
+   * @example
+   * ```ts
+   * domain.registerResource("battery", {
+   *   get: (s) => s.battery,
+   *   set: (s, amount) => ({ ...s, battery: amount }),
+   *   max: 100,
+   * });
+   * ```
+   */
+  registerResource(name: string, resource: Resource<TState>): this {
+    if (name === "") {
+      throw new TypeError("Resource name must not be empty.");
+    }
+    this.resources[name] = resource;
+    return this;
+  }
+
   /**
    * Retrieve an Operator by name.
    *
@@ -97,11 +175,15 @@ export class Domain<TState> implements IDomain<TState> {
   /**
    * Eagerly validates that every subtask name referenced inside all registered
    * methods resolves to either a known operator or a known compound task.
+   * Methods that compute their subtasks at planning time are skipped.
+   * All broken references are collected before throwing, each with "did you
+   * mean" suggestions drawn from the registered task names.
    *
    * Call this once after building the domain and before running the planner
    * to surface broken references early (e.g. a typo in a subtask name).
    *
-   * @throws {DomainValidationError} if any subtask name is unresolved.
+   * @throws {DomainValidationError} if any subtask name is unresolved; its
+   *         `issues` list every unresolved reference.
    * @returns `this` for fluent chaining.
    *
    * @example
@@ -113,17 +195,61 @@ export class Domain<TState> implements IDomain<TState> {
    * ```
    */
   validate(): this {
-    for (const taskName of Object.keys(this.compoundTasks)) {
-      for (const method of this._compoundMethods[taskName] ?? []) {
-        for (const subtask of method.subtasks) {
-          const isOperator = Object.prototype.hasOwnProperty.call(this.operators, subtask);
-          const isCompound = Object.prototype.hasOwnProperty.call(this.compoundTasks, subtask);
-          if (!isOperator && !isCompound) {
-            throw new DomainValidationError(subtask);
-          }
-        }
-      }
+    const known = [...Object.keys(this.operators), ...Object.keys(this.compoundTasks)];
+    // Without goals, every unresolved reference sits inside a method.
+    const issues: DomainValidationIssue[] = analyzeDomain(this).unresolvedReferences.map((ref) => ({
+      task: ref.task!,
+      method: ref.method!,
+      subtask: ref.subtask,
+      index: ref.index,
+      suggestions: suggestTaskNames(ref.subtask, known),
+    }));
+    if (issues.length > 0) {
+      throw new DomainValidationError(issues[0].subtask, issues);
     }
     return this;
   }
+
+  /**
+   * Reports every structural problem in the domain at once instead of
+   * throwing on the first: unresolved references, recursion cycles between
+   * compound tasks, tasks unreachable from `goals`, compound tasks without
+   * methods, duplicate method names and empty subtask lists.
+   *
+   * @param goals  Top-level tasks used to compute reachability (optional).
+   * @returns      A {@link DomainAnalysis} report.
+   *
+   * @example
+   * ```ts
+   * const report = domain.analyze(["FetchCoffee"]);
+   * if (report.unreachableOperators.length > 0) {
+   *   console.warn("Dead operators:", report.unreachableOperators);
+   * }
+   * ```
+   */
+  analyze(goals?: ReadonlyArray<TaskRef>): DomainAnalysis {
+    return analyzeDomain(this, goals);
+  }
+
+  /**
+   * Returns the declarative definition of a domain built with
+   * {@link Domain.fromJSON}, so it can be saved and loaded again.
+   *
+   * @throws {TypeError} if any operator or method was registered in code
+   *         rather than loaded declaratively.
+   */
+  toDefinition(): DomainDefinition {
+    return describeDomain(this);
+  }
+
+  /**
+   * Used by `JSON.stringify(domain)`: the {@link Domain.toDefinition | definition}
+   * of a declarative domain, or else the registered operators, compound tasks
+   * and resources (whose functions `JSON.stringify` leaves out). Never throws.
+   */
+  toJSON(): DomainDefinition | IDomain<TState> {
+    if (isDeclarative(this)) return describeDomain(this);
+    const { operators, compoundTasks, resources } = this;
+    return { operators, compoundTasks, resources };
+  }
 }
@@ -0,0 +1,184 @@
+import type { TaskArgs } from "./types";
+
+/**
+ * Bookkeeping for one drafted object. `copy` is created on the first write
+ * to the object or to anything below it, so untouched branches of the
+ * state are shared with the base.
+ */
+interface DraftNode {
+  base: Record<PropertyKey, unknown>;
+  copy: Record<PropertyKey, unknown> | null;
+  parent: DraftNode | null;
+  /** Drafts handed out for nested objects, by property. */
+  children: Map<PropertyKey, DraftNode>;
+  proxy: Record<PropertyKey, unknown>;
+}
+
+/** Maps each draft proxy back to its node, so finalization can unwrap it. */
+const nodes = new WeakMap<object, DraftNode>();
+
+/** Plain objects and arrays are drafted and frozen; class instances are left alone. */
+function isPlain(value: unknown): value is Record<PropertyKey, unknown> {
+  if (typeof value !== "object" || value === null) return false;
+  if (Array.isArray(value)) return true;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function shallowCopy(value: Record<PropertyKey, unknown>): Record<PropertyKey, unknown> {
+  return Array.isArray(value)
+    ? (value.slice() as unknown as Record<PropertyKey, unknown>)
+    : Object.assign(Object.create(Object.getPrototypeOf(value)), value);
+}
+
+function current(node: DraftNode): Record<PropertyKey, unknown> {
+  return node.copy ?? node.base;
+}
+
+function markChanged(node: DraftNode): void {
+  for (let n: DraftNode | null = node; n !== null && n.copy === null; n = n.parent) {
+    n.copy = shallowCopy(n.base);
+  }
+}
+
+function createDraft(base: Record<PropertyKey, unknown>, parent: DraftNode | null): DraftNode {
+  const node: DraftNode = { base, copy: null, parent, children: new Map(), proxy: null! };
+  // The proxy wraps an empty stand-in rather than `base`, so a frozen base
+  // does not constrain what the traps may report.
+  const target = Array.isArray(base) ? [] : {};
+  node.proxy = new Proxy(target, {
+    get(_target, key) {
+      const child = node.children.get(key);
+      if (child !== undefined) return child.proxy;
+      const value = current(node)[key];
+      if (!isPlain(value) || nodes.has(value) || value !== node.base[key]) return value;
+      const draft = createDraft(value, node);
+      node.children.set(key, draft);
+      return draft.proxy;
+    },
+    set(_target, key, value) {
+      if (current(node)[key] === value && key in current(node)) return true;
+      markChanged(node);
+      node.children.delete(key);
+      node.copy![key] = value;
+      return true;
+    },
+    deleteProperty(_target, key) {
+      if (!(key in current(node))) return true;
+      markChanged(node);
+      node.children.delete(key);
+      delete node.copy![key];
+      return true;
+    },
+    has: (_target, key) => key in current(node),
+    ownKeys: () => Reflect.ownKeys(current(node)),
+    getOwnPropertyDescriptor(_target, key) {
+      const descriptor = Reflect.getOwnPropertyDescriptor(current(node), key);
+      if (descriptor === undefined) return undefined;
+      // Array `length` is non-configurable on the stand-in too; everything
+      // else must be reported as configurable because the stand-in lacks it.
+      return key === "length" && Array.isArray(base)
+        ? { ...descriptor, writable: true }
+        : { ...descriptor, writable: true, configurable: true };
+    },
+    getPrototypeOf: () => Object.getPrototypeOf(base),
+    defineProperty() {
+      throw new TypeError("defineProperty is not supported on a draft");
+    },
+    setPrototypeOf() {
+      throw new TypeError("setPrototypeOf is not supported on a draft");
+    },
+  }) as Record<PropertyKey, unknown>;
+  nodes.set(node.proxy, node);
+  return node;
+}
+
+/** Replaces drafts by their final values, sharing every unchanged object. */
+function finalize(value: unknown): unknown {
+  const node = typeof value === "object" && value !== null ? nodes.get(value) : undefined;
+  if (node === undefined) {
+    // New objects assigned by the recipe may hold drafts, e.g. `{ ...draft.robot }`.
+    if (isPlain(value) && !Object.isFrozen(value)) {
+      for (const key of Reflect.ownKeys(value)) {
+        const inner = finalize(value[key]);
+        if (inner !== value[key]) value[key] = inner;
+      }
+    }
+    return value;
+  }
+  const { base, copy, children } = node;
+  if (copy === null) return base;
+  for (const key of Reflect.ownKeys(copy)) {
+    const child = children.get(key);
+    if (child !== undefined) copy[key] = finalize(child.proxy);
+    else if (copy[key] !== base[key]) copy[key] = finalize(copy[key]);
+  }
+  node.base = copy;
+  node.copy = null;
+  children.clear();
+  return copy;
+}
+
+/**
+ * Produces the next state by running `recipe` on a mutable draft of `base`.
+ * Only the objects along changed paths are copied; everything else is
+ * shared with `base`, which is never modified. When the recipe changes
+ * nothing, `base` itself is returned.
+ *
+ * Plain objects and arrays are drafted. Other objects (class instances,
+ * `Map`, `Set`, `Date`) are shared as they are, so replace them instead of
+ * mutating them.
+ *
+ * @example
+ * ```ts
+ * const next = produce(state, (draft) => {
+ *   draft.robot.location = "Kitchen";
+ *   draft.robot.battery -= 10;
+ *   draft.log.push("moved");
+ * });
+ * ```
+ */
+export function produce<TState>(base: TState, recipe: (draft: TState) => void): TState {
+  if (!isPlain(base)) {
+    throw new TypeError("produce() needs a plain object or array as its base state");
+  }
+  const root = createDraft(base, null);
+  recipe(root.proxy as TState);
+  return finalize(root.proxy) as TState;
+}
+
+/**
+ * Turns a mutating `recipe` into an {@link Operator.effect}: the recipe
+ * edits a draft of the state, and the effect returns a new state that
+ * shares every unchanged object with the old one (see {@link produce}).
+ *
+ * @example
+ * ```ts
+ * domain.registerOperator({
+ *   name: "MoveTo",
+ *   condition: (s) => s.robot.battery >= 10,
+ *   effect: draftEffect((draft, args) => {
+ *     draft.robot.location = args.room as string;
+ *     draft.robot.battery -= 10;
+ *   }),
+ * });
+ * ```
+ */
+export function draftEffect<TState>(
+  recipe: (draft: TState, args: TaskArgs) => void
+): (state: TState, args: TaskArgs) => TState {
+  return (state, args) => produce(state, (draft) => recipe(draft, args));
+}
+
+/**
+ * Freezes `value` and every plain object and array reachable from it, so
+ * that in-place mutations throw (in strict-mode code). Already frozen
+ * objects are not walked again, which keeps freezing structurally shared
+ * states cheap.
+ */
+export function deepFreeze<T>(value: T): T {
+  if (!isPlain(value) || Object.isFrozen(value)) return value;
+  Object.freeze(value);
+  for (const key of Reflect.ownKeys(value)) deepFreeze(value[key]);
+  return value;
+}
@@ -1,22 +1,16 @@
+import type { DomainValidationIssue, SchemaIssue } from "./types";
+
 /**
- * Thrown when the HTN planner exceeds its maximum recursion depth,
+ * Signals that compound tasks nested deeper than the planner's `maxDepth`,
  * which typically indicates a cyclic task decomposition (infinite loop).
  *
- * @example
- * ```ts
- * try {
- *   createPlanner({ domain, initialState, goals }).plan();
- * } catch (err) {
- *   if (err instanceof PlannerMaxDepthError) {
- *     console.error("Cyclic decomposition detected!");
- *   }
- * }
- * ```
+ * @deprecated The planner no longer throws this error; it returns a
+ *             `"MAX_DEPTH_EXCEEDED"` failure instead.
  */
 export class PlannerMaxDepthError extends Error {
   constructor(maxDepth: number = 1000) {
     super(
-      `HTN planner exceeded the maximum recursion depth of ${maxDepth}. ` +
+      `HTN planner exceeded the maximum decomposition depth of ${maxDepth}. ` +
         "This usually indicates a cyclic task decomposition."
     );
     this.name = "PlannerMaxDepthError";
@@ -25,7 +19,9 @@ export class PlannerMaxDepthError extends Error {
 
 /**
  * Thrown by {@link Domain.validate} when the domain contains references to
- * tasks that have not been registered (broken subtask links).
+ * tasks that have not been registered (broken subtask links). Every broken
+ * reference is listed in {@link DomainValidationError.issues}, not just the
+ * first one.
  *
  * @example
  * ```ts
@@ -33,21 +29,116 @@ export class PlannerMaxDepthError extends Error {
  *   domain.validate();
  * } catch (err) {
  *   if (err instanceof DomainValidationError) {
- *     console.error(`Unresolved task: ${err.unresolvedTask}`);
+ *     for (const issue of err.issues) {
+ *       console.error(`${issue.task}/${issue.method}: unknown task ${issue.subtask}`);
+ *     }
  *   }
  * }
  * ```
  */
 export class DomainValidationError extends Error {
-  /** The task name that is referenced but not registered in the domain. */
+  /** The first task name that is referenced but not registered in the domain. */
   readonly unresolvedTask: string;
+  /** Every unresolved reference, with its location and suggested fixes. */
+  readonly issues: ReadonlyArray<DomainValidationIssue>;
 
-  constructor(unresolvedTask: string) {
+  constructor(unresolvedTask: string, issues: ReadonlyArray<DomainValidationIssue> = []) {
     super(
-      `Domain validation failed: task "${unresolvedTask}" is referenced as a subtask ` +
-        "but is not registered as an operator or compound task."
+      issues.length === 0
+        ? `Domain validation failed: task "${unresolvedTask}" is referenced as a subtask ` +
+            "but is not registered as an operator or compound task."
+        : `Domain validation failed with ${issues.length} unresolved ` +
+            `reference${issues.length === 1 ? "" : "s"}:\n` +
+            issues.map(describeIssue).join("\n")
     );
     this.name = "DomainValidationError";
     this.unresolvedTask = unresolvedTask;
+    this.issues = issues;
+  }
+}
+
+/** Formats one validation issue as a line of the error message. */
+function describeIssue(issue: DomainValidationIssue): string {
+  const hint =
+    issue.suggestions.length === 0
+      ? ""
+      : ` (did you mean ${issue.suggestions.map((name) => `"${name}"`).join(" or ")}?)`;
+  return (
+    `  - ${issue.task}/${issue.method} subtasks[${issue.index}]: ` +
+    `"${issue.subtask}" is not registered${hint}`
+  );
+}
+
+/**
+ * Used by {@link createAsyncExecutor} as the abort reason when an operator's
+ * `execute` call runs longer than its time limit.
+ *
+ * @example
+ * ```ts
+ * execute: async (state, signal) => {
+ *   const res = await fetch(url, { signal }); // rejects with OperatorTimeoutError on timeout
+ *   return { ...state, data: await res.json() };
+ * }
+ * ```
+ */
+export class OperatorTimeoutError extends Error {
+  /** The operator whose `execute` call timed out. */
+  readonly operatorName: string;
+  /** The time limit that was exceeded, in milliseconds. */
+  readonly timeoutMs: number;
+
+  constructor(operatorName: string, timeoutMs: number) {
+    super(`Operator "${operatorName}" did not finish executing within ${timeoutMs}ms.`);
+    this.name = "OperatorTimeoutError";
+    this.operatorName = operatorName;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Thrown by {@link Domain.fromJSON} when a declarative domain does not match
+ * the schema. Every problem found is listed in
+ * {@link DomainSchemaError.issues}, each with the path where it occurs.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   Domain.fromJSON(json);
+ * } catch (err) {
+ *   if (err instanceof DomainSchemaError) {
+ *     err.issues.forEach((issue) => console.error(`${issue.path}: ${issue.message}`));
+ *   }
+ * }
+ * ```
+ */
+export class DomainSchemaError extends Error {
+  /** Every schema violation, in document order. */
+  readonly issues: ReadonlyArray<SchemaIssue>;
+
+  constructor(issues: ReadonlyArray<SchemaIssue>) {
+    super(
+      `Invalid domain definition (${issues.length} issue${issues.length === 1 ? "" : "s"}):\n` +
+        issues.map((issue) => `  - ${issue.path || "(root)"}: ${issue.message}`).join("\n")
+    );
+    this.name = "DomainSchemaError";
+    this.issues = issues;
+  }
+}
+
+/**
+ * Thrown by {@link parseHddl} when an HDDL domain or problem file cannot be
+ * read, with the position of the offending expression.
+ */
+export class HddlParseError extends Error {
+  /** 1-based line of the offending expression. */
+  readonly line: number;
+  /** 1-based column of the offending expression. */
+  readonly column: number;
+
+  constructor(message: string, line: number, column: number) {
+    super(`HDDL parse error at line ${line}, column ${column}: ${message}`);
+    this.name = "HddlParseError";
+    this.line = line;
+    this.column = column;
   }
 }
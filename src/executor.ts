@@ -0,0 +1,465 @@
+import type {
+  AsyncExecutorConfig,
+  Domain,
+  ExecutedStep,
+  ExecutionFailureReason,
+  ExecutionResult,
+  ExecutorConfig,
+  ExecutorHooks,
+  Operator,
+  Plan,
+  PlannerConfig,
+  PlanningFailure,
+  PlanStep,
+  ReplanReason,
+  TaskArgs,
+  TaskRef,
+} from "./types";
+import { createPlanner } from "./planner";
+import { OperatorTimeoutError } from "./errors";
+import { applyResourceUsage, exceededResource, resourceUsage } from "./resources";
+import { NO_ARGS } from "./tasks";
+
+/** Number of replans allowed when `maxReplans` is omitted. */
+const DEFAULT_MAX_REPLANS = 10;
+
+/**
+ * Structural equality for plain data (primitives, arrays and plain objects),
+ * `Date`s, `Map`s and `Set`s. Objects must share a prototype, and one that
+ * defines an `equals` method (such as a `FactState`) is compared with it.
+ * Used as the default divergence check between predicted and observed state.
+ */
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) {
+    return false;
+  }
+  if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false;
+
+  const { equals } = a as { equals?: unknown };
+  if (typeof equals === "function") return equals.call(a, b) === true;
+  if (a instanceof Date) return Object.is(a.getTime(), (b as Date).getTime());
+  if (a instanceof Map) {
+    const other = b as Map<unknown, unknown>;
+    if (a.size !== other.size) return false;
+    for (const [key, value] of a) {
+      if (!other.has(key) || !deepEqual(value, other.get(key))) return false;
+    }
+    return true;
+  }
+  if (a instanceof Set) {
+    const other = b as Set<unknown>;
+    return a.size === other.size && [...a].every((value) => other.has(value));
+  }
+
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  if (keysA.length !== keysB.length) return false;
+  return keysA.every(
+    (key) =>
+      Object.prototype.hasOwnProperty.call(b, key) &&
+      deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+  );
+}
+
+/** The options shared by the synchronous and asynchronous executors. */
+interface SessionConfig<TState> {
+  domain: Domain<TState>;
+  goals: ReadonlyArray<TaskRef>;
+  plan?: Plan<TState> | ReadonlyArray<PlanStep<TState>>;
+  isStateEqual?: (predicted: Readonly<TState>, observed: Readonly<TState>) => boolean;
+  maxReplans?: number;
+  planner?: Omit<PlannerConfig<TState>, "domain" | "initialState" | "goals">;
+  hooks?: ExecutorHooks<TState>;
+}
+
+/** Normalizes a supplied plan to steps, giving bare operators no arguments. */
+function toSteps<TState>(
+  plan: Plan<TState> | ReadonlyArray<PlanStep<TState>>
+): ReadonlyArray<PlanStep<TState>> {
+  return plan.map((entry: Operator<TState> | PlanStep<TState>) =>
+    "operator" in entry ? entry : { operator: entry, args: NO_ARGS }
+  );
+}
+
+/**
+ * Bookkeeping shared by both executors: the current plan and cursor, the
+ * executed-step log, replanning, and the final result.
+ */
+function createSession<TState>(config: SessionConfig<TState>) {
+  const { domain, goals, hooks } = config;
+  const isStateEqual = config.isStateEqual ?? deepEqual;
+  const maxReplans = config.maxReplans ?? DEFAULT_MAX_REPLANS;
+
+  const steps: ExecutedStep<TState>[] = [];
+  let plan: ReadonlyArray<PlanStep<TState>> | null =
+    config.plan !== undefined ? toSteps(config.plan) : null;
+  let index = 0;
+  let replans = 0;
+  let result: ExecutionResult<TState> | null = null;
+
+  function succeed(state: TState): ExecutionResult<TState> {
+    result = { success: true, steps, replans, finalState: state };
+    return result;
+  }
+
+  function fail(
+    reason: ExecutionFailureReason,
+    state: TState,
+    planningFailure?: PlanningFailure<TState>
+  ): ExecutionResult<TState> {
+    const failure: ExecutionResult<TState> = {
+      success: false,
+      reason,
+      steps,
+      replans,
+      finalState: state,
+    };
+    if (planningFailure !== undefined) {
+      failure.planningFailure = planningFailure;
+    }
+    result = failure;
+    return failure;
+  }
+
+  /** Plans the goals from `state`; returns a result only when planning fails. */
+  function planFrom(state: TState): ExecutionResult<TState> | null {
+    const planned = createPlanner({ ...config.planner, domain, initialState: state, goals }).plan();
+    if (!planned.success) {
+      return fail("PLANNING_FAILED", state, planned);
+    }
+    plan = planned.steps;
+    index = 0;
+    return null;
+  }
+
+  return {
+    hooks,
+
+    get result(): ExecutionResult<TState> | null {
+      return result;
+    },
+
+    /**
+     * Returns the next step to run from `state`, planning first if no plan
+     * exists yet. Returns a result instead when execution is over.
+     */
+    next(state: TState): PlanStep<TState> | ExecutionResult<TState> {
+      if (plan === null) {
+        const failed = planFrom(state);
+        if (failed !== null) return failed;
+      }
+      return index < plan!.length ? plan![index] : succeed(state);
+    },
+
+    /**
+     * Predicts the state after running `step` in `state`, including the
+     * resources its operator consumes and produces. Returns `null` when the
+     * operator's precondition does not hold or a resource would leave its
+     * bounds.
+     */
+    predict({ operator, args }: PlanStep<TState>, state: TState): TState | null {
+      if (!operator.condition(state, args)) return null;
+      const usage = resourceUsage(domain, operator, state, args);
+      if (usage === null) return operator.effect(state, args);
+      if (exceededResource(domain, state, usage) !== null) return null;
+      return applyResourceUsage(domain, operator.effect(state, args), usage);
+    },
+
+    /**
+     * Logs a completed step and advances the cursor. Returns `false` when the
+     * observed state diverged from the prediction.
+     */
+    record(
+      { operator, args }: PlanStep<TState>,
+      stateBefore: TState,
+      predicted: TState,
+      observed: TState
+    ): boolean {
+      const diverged = !isStateEqual(predicted, observed);
+      steps.push({
+        operator,
+        args,
+        stateBefore,
+        predictedState: predicted,
+        observedState: observed,
+        diverged,
+      });
+      hooks?.onStepComplete?.(operator.name, predicted, observed);
+      index++;
+      return !diverged;
+    },
+
+    /**
+     * Abandons the current plan and plans the goals again from `state`.
+     * Returns a result when execution is over (replan budget exhausted,
+     * planning failed, or nothing is left to do).
+     */
+    replan(
+      reason: ReplanReason,
+      operator: Operator<TState>,
+      state: TState
+    ): ExecutionResult<TState> | null {
+      if (replans >= maxReplans) {
+        return fail("MAX_REPLANS_EXCEEDED", state);
+      }
+      replans++;
+      hooks?.onReplan?.(reason, operator.name, state);
+      return planFrom(state) ?? (plan!.length === 0 ? succeed(state) : null);
+    },
+
+    /** Finishes successfully when the cursor has reached the end of the plan. */
+    finishIfDone(state: TState): ExecutionResult<TState> | null {
+      return index >= plan!.length ? succeed(state) : null;
+    },
+
+    fail,
+  };
+}
+
+/**
+ * Creates an executor that carries out a plan in the real world, re-checking
+ * every operator's precondition against the observed state and replanning
+ * from the current state whenever a step fails or the world diverges from
+ * the planner's prediction.
+ *
+ * Each step:
+ * 1. re-checks `operator.condition` (and the resources the operator
+ *    consumes) against the observed state,
+ * 2. runs the operator's action callback,
+ * 3. calls `perceive()` and compares the result with `operator.effect`.
+ *
+ * A failed precondition, a failed action or a diverged state triggers a
+ * replan of the original goals from the observed state.
+ *
+ * @example
+ * ```ts
+ * const executor = createExecutor({
+ *   domain,
+ *   goals: ["FetchCoffee"],
+ *   perceive: () => robot.readSensors(),
+ *   actions: { MoveToKitchen: () => robot.drive("Kitchen") },
+ * });
+ *
+ * // Either run to completion…
+ * const result = executor.run();
+ *
+ * // …or advance one operator per game tick.
+ * function onTick() {
+ *   const outcome = executor.step();
+ *   if (outcome !== null) console.log("done", outcome.success);
+ * }
+ * ```
+ */
+export function createExecutor<TState>(config: ExecutorConfig<TState>) {
+  const { perceive } = config;
+  const actions = config.actions ?? {};
+  const session = createSession(config);
+  let current: TState | null = null;
+
+  /**
+   * Runs at most one operator of the current plan.
+   *
+   * @returns The final {@link ExecutionResult} once execution has finished,
+   *          or `null` while there is still work left to do.
+   */
+  function step(): ExecutionResult<TState> | null {
+    if (session.result !== null) return session.result;
+
+    const state: TState = current ?? perceive();
+    current = state;
+
+    const next = session.next(state);
+    if (!("operator" in next)) return next;
+    const { operator, args } = next;
+    session.hooks?.onStepStart?.(operator.name, state);
+
+    const predicted = session.predict(next, state);
+    if (predicted === null) {
+      return session.replan("PRECONDITION_FAILED", operator, state);
+    }
+
+    const action = Object.prototype.hasOwnProperty.call(actions, operator.name)
+      ? actions[operator.name]
+      : undefined;
+    if (action !== undefined && action(state, args) === false) {
+      current = perceive();
+      return session.replan("ACTION_FAILED", operator, current);
+    }
+
+    const observed = perceive();
+    current = observed;
+    if (!session.record(next, state, predicted, observed)) {
+      return session.replan("STATE_DIVERGED", operator, observed);
+    }
+    return session.finishIfDone(observed);
+  }
+
+  return {
+    step,
+
+    /**
+     * Steps through the plan until every goal has been carried out or
+     * execution fails.
+     */
+    run(): ExecutionResult<TState> {
+      let outcome = step();
+      while (outcome === null) {
+        outcome = step();
+      }
+      return outcome;
+    },
+
+    /** The final result, or `null` while execution is still in progress. */
+    get result(): ExecutionResult<TState> | null {
+      return session.result;
+    },
+  };
+}
+
+/**
+ * Awaits `operator.execute`, aborting it when the outer `signal` aborts or
+ * when the time limit elapses (with an {@link OperatorTimeoutError} reason).
+ */
+async function executeWithLimits<TState>(
+  operator: Operator<TState>,
+  state: TState,
+  args: TaskArgs,
+  signal: AbortSignal | undefined,
+  timeoutMs: number | undefined
+): Promise<TState> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let onOuterAbort: (() => void) | undefined;
+
+  const aborted = new Promise<never>((_resolve, reject) => {
+    controller.signal.addEventListener("abort", () => reject(controller.signal.reason), {
+      once: true,
+    });
+  });
+
+  if (signal?.aborted) {
+    controller.abort(signal.reason);
+  } else if (signal !== undefined) {
+    onOuterAbort = () => controller.abort(signal.reason);
+    signal.addEventListener("abort", onOuterAbort, { once: true });
+  }
+  if (timeoutMs !== undefined) {
+    timer = setTimeout(
+      () => controller.abort(new OperatorTimeoutError(operator.name, timeoutMs)),
+      timeoutMs
+    );
+  }
+
+  try {
+    return await Promise.race([operator.execute!(state, controller.signal, args), aborted]);
+  } finally {
+    if (timer !== undefined) clearTimeout(timer);
+    if (onOuterAbort !== undefined) signal!.removeEventListener("abort", onOuterAbort);
+    // Silence the rejection of `aborted` when execute settled first.
+    aborted.catch(() => undefined);
+  }
+}
+
+/**
+ * Creates an executor for asynchronous operators. Each step awaits the
+ * operator's {@link Operator.execute} (operators without one are simulated
+ * with their `effect`), compares the state it resolves with the state
+ * predicted by `effect`, and replans from the real state when they differ,
+ * when the precondition no longer holds, or when `execute` rejects or times
+ * out.
+ *
+ * Aborting `config.signal` aborts the in-flight `execute` call and ends
+ * execution with the `"ABORTED"` failure reason.
+ *
+ * @example
+ * ```ts
+ * const controller = new AbortController();
+ * const result = await createAsyncExecutor({
+ *   domain,
+ *   goals: ["ResearchTopic"],
+ *   initialState: { topic: "quantum computing", hasSummary: false },
+ *   signal: controller.signal,
+ *   timeoutMs: 30_000,
+ * }).run();
+ * ```
+ */
+export function createAsyncExecutor<TState>(config: AsyncExecutorConfig<TState>) {
+  const { perceive, signal } = config;
+  const session = createSession(config);
+  let current: TState = config.initialState;
+
+  /**
+   * Runs at most one operator of the current plan.
+   *
+   * @returns The final {@link ExecutionResult} once execution has finished,
+   *          or `null` while there is still work left to do.
+   */
+  async function step(): Promise<ExecutionResult<TState> | null> {
+    if (session.result !== null) return session.result;
+    if (signal?.aborted) return session.fail("ABORTED", current);
+
+    if (perceive !== undefined) {
+      current = await perceive();
+      if (signal?.aborted) return session.fail("ABORTED", current);
+    }
+    const state = current;
+
+    const next = session.next(state);
+    if (!("operator" in next)) return next;
+    const { operator, args } = next;
+    session.hooks?.onStepStart?.(operator.name, state);
+
+    const predicted = session.predict(next, state);
+    if (predicted === null) {
+      return session.replan("PRECONDITION_FAILED", operator, state);
+    }
+
+    let observed: TState;
+    if (operator.execute === undefined) {
+      observed = predicted;
+    } else {
+      try {
+        observed = await executeWithLimits(
+          operator,
+          state,
+          args,
+          signal,
+          operator.timeoutMs ?? config.timeoutMs
+        );
+      } catch (err) {
+        if (signal?.aborted) return session.fail("ABORTED", state);
+        if (perceive !== undefined) current = await perceive();
+        const reason = err instanceof OperatorTimeoutError ? "TIMEOUT" : "ACTION_FAILED";
+        return session.replan(reason, operator, current);
+      }
+    }
+
+    current = observed;
+    if (!session.record(next, state, predicted, observed)) {
+      return session.replan("STATE_DIVERGED", operator, observed);
+    }
+    return session.finishIfDone(observed);
+  }
+
+  return {
+    step,
+
+    /**
+     * Steps through the plan until every goal has been carried out,
+     * execution fails, or the signal aborts.
+     */
+    async run(): Promise<ExecutionResult<TState>> {
+      let outcome = await step();
+      while (outcome === null) {
+        outcome = await step();
+      }
+      return outcome;
+    },
+
+    /** The final result, or `null` while execution is still in progress. */
+    get result(): ExecutionResult<TState> | null {
+      return session.result;
+    },
+  };
+}
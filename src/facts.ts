@@ -0,0 +1,283 @@
+import type { Fact, FactChanges, Operator, StripsOperatorDefinition, TaskArgs } from "./types";
+
+/** Variable bindings produced by pattern matching, keyed by name without the `?`. */
+type Binding = Record<string, string>;
+
+function isVariable(term: string): boolean {
+  return term.startsWith("?");
+}
+
+/** Unambiguous key of a fact, used for set membership and hashing. */
+function factKey(fact: Fact): string {
+  return JSON.stringify(fact);
+}
+
+/**
+ * Replaces the variables of `pattern` with their values in `binding`, or
+ * returns `undefined` when a variable is unbound.
+ */
+function substitute(pattern: Fact, binding: TaskArgs): Fact | undefined {
+  const fact: string[] = [];
+  for (const term of pattern) {
+    if (!isVariable(term)) {
+      fact.push(term);
+      continue;
+    }
+    const value = binding[term.slice(1)];
+    if (value === undefined) return undefined;
+    fact.push(String(value));
+  }
+  return fact as unknown as Fact;
+}
+
+/** Extends `binding` so that `pattern` equals `fact`, or returns `undefined`. */
+function unify(pattern: Fact, fact: Fact, binding: TaskArgs): Binding | undefined {
+  if (pattern.length !== fact.length) return undefined;
+  const result: Binding = { ...(binding as Binding) };
+  for (let i = 1; i < pattern.length; i++) {
+    const term = pattern[i];
+    if (!isVariable(term)) {
+      if (term !== fact[i]) return undefined;
+      continue;
+    }
+    const name = term.slice(1);
+    const bound = result[name];
+    if (bound === undefined) result[name] = fact[i];
+    else if (String(bound) !== fact[i]) return undefined;
+  }
+  return result;
+}
+
+/**
+ * An immutable set of ground facts, for domains written in the classic
+ * predicate style instead of a custom state object.
+ *
+ * Facts are grouped by predicate, so adding or removing a fact copies only
+ * the facts of that predicate. Every change returns a new `FactState`
+ * (or the same instance when nothing changed).
+ *
+ * @example
+ * ```ts
+ * const state = FactState.of(["at", "truck-0", "city-a"], ["road", "city-a", "city-b"]);
+ * const moved = state.apply({
+ *   delete: [["at", "truck-0", "city-a"]],
+ *   add: [["at", "truck-0", "city-b"]],
+ * });
+ * moved.has("at", "truck-0", "city-b"); // true
+ * [...moved.match(["road", "city-a", "?to"])]; // [{ to: "city-b" }]
+ * ```
+ */
+export class FactState implements Iterable<Fact> {
+  /** The state without any facts. */
+  static readonly empty = new FactState(new Map(), 0);
+
+  /** Number of facts in the state. */
+  readonly size: number;
+
+  /** Facts keyed by {@link factKey}, grouped by predicate. */
+  private readonly _byPredicate: ReadonlyMap<string, ReadonlyMap<string, Fact>>;
+
+  /** Lazily computed result of {@link FactState.hash}. */
+  private _hash: string | undefined;
+
+  private constructor(byPredicate: ReadonlyMap<string, ReadonlyMap<string, Fact>>, size: number) {
+    this._byPredicate = byPredicate;
+    this.size = size;
+  }
+
+  /** Creates a state holding the given facts. */
+  static of(...facts: Fact[]): FactState {
+    return FactState.from(facts);
+  }
+
+  /** Creates a state holding every fact of `facts`. */
+  static from(facts: Iterable<Fact>): FactState {
+    return FactState.empty.apply({ add: [...facts] });
+  }
+
+  /** Returns true when the ground fact `predicate(...args)` holds. */
+  has(predicate: string, ...args: string[]): boolean {
+    const group = this._byPredicate.get(predicate);
+    return group !== undefined && group.has(factKey([predicate, ...args]));
+  }
+
+  /** Returns a state that also holds `predicate(...args)`. */
+  add(predicate: string, ...args: string[]): FactState {
+    return this.apply({ add: [[predicate, ...args]] });
+  }
+
+  /** Returns a state without `predicate(...args)`. */
+  remove(predicate: string, ...args: string[]): FactState {
+    return this.apply({ delete: [[predicate, ...args]] });
+  }
+
+  /**
+   * Returns a state with `changes.delete` removed and then `changes.add`
+   * added, so a fact that is both deleted and added ends up present.
+   */
+  apply(changes: FactChanges): FactState {
+    let changed = false;
+    const groups = new Map<string, Map<string, Fact>>();
+    const writable = (predicate: string): Map<string, Fact> => {
+      let group = groups.get(predicate);
+      if (group === undefined) {
+        group = new Map(this._byPredicate.get(predicate));
+        groups.set(predicate, group);
+      }
+      return group;
+    };
+
+    let size = this.size;
+    for (const fact of changes.delete ?? []) {
+      if (!this._byPredicate.has(fact[0]) || !writable(fact[0]).delete(factKey(fact))) continue;
+      size--;
+      changed = true;
+    }
+    for (const fact of changes.add ?? []) {
+      const group = writable(fact[0]);
+      const key = factKey(fact);
+      if (group.has(key)) continue;
+      group.set(key, [...fact] as unknown as Fact);
+      size++;
+      changed = true;
+    }
+    if (!changed) return this;
+
+    const byPredicate = new Map<string, ReadonlyMap<string, Fact>>(this._byPredicate);
+    for (const [predicate, group] of groups) {
+      if (group.size === 0) byPredicate.delete(predicate);
+      else byPredicate.set(predicate, group);
+    }
+    return new FactState(byPredicate, size);
+  }
+
+  /** Iterates the facts of `predicate`, or every fact when omitted. */
+  *facts(predicate?: string): IterableIterator<Fact> {
+    if (predicate !== undefined) {
+      yield* this._byPredicate.get(predicate)?.values() ?? [];
+      return;
+    }
+    for (const group of this._byPredicate.values()) yield* group.values();
+  }
+
+  [Symbol.iterator](): Iterator<Fact> {
+    return this.facts();
+  }
+
+  /**
+   * Yields a binding for every fact that matches `pattern`. Variables
+   * already bound in `binding` must match their value; the yielded
+   * bindings extend `binding` with the remaining variables.
+   */
+  *match(pattern: Fact, binding: TaskArgs = {}): IterableIterator<Binding> {
+    for (const fact of this.facts(pattern[0])) {
+      const result = unify(pattern, fact, binding);
+      if (result !== undefined) yield result;
+    }
+  }
+
+  /**
+   * Yields every binding under which all `patterns` hold at once — a
+   * conjunctive query, suitable for {@link Method.bindings}.
+   *
+   * @example
+   * ```ts
+   * bindings: (state, args) =>
+   *   state.matchAll([["at", "?truck", "?from"], ["road", "?from", "?to"]], args)
+   * ```
+   */
+  *matchAll(patterns: ReadonlyArray<Fact>, binding: TaskArgs = {}): IterableIterator<Binding> {
+    if (patterns.length === 0) {
+      yield { ...(binding as Binding) };
+      return;
+    }
+    const [first, ...rest] = patterns;
+    for (const extended of this.match(first, binding)) yield* this.matchAll(rest, extended);
+  }
+
+  /**
+   * A structural hash: equal for states holding the same facts, whatever
+   * order they were added in. Suitable for {@link PlannerConfig.stateHash}.
+   */
+  hash(): string {
+    if (this._hash === undefined) {
+      const keys: string[] = [];
+      for (const group of this._byPredicate.values()) keys.push(...group.keys());
+      this._hash = keys.sort().join("\n");
+    }
+    return this._hash;
+  }
+
+  /** Returns true when both states hold the same facts. */
+  equals(other: FactState): boolean {
+    return this === other || (this.size === other.size && this.hash() === other.hash());
+  }
+
+  /** The facts in a stable order, so states serialize readably. */
+  toJSON(): Fact[] {
+    return [...this.facts()].sort((a, b) => (factKey(a) < factKey(b) ? -1 : 1));
+  }
+}
+
+/**
+ * Returns a condition that holds when every fact of `present` holds and
+ * none of `absent` does, after binding their variables to the task
+ * arguments. Facts with an unbound variable never hold.
+ */
+export function factCondition(
+  present: ReadonlyArray<Fact>,
+  absent: ReadonlyArray<Fact> = []
+): (state: FactState, args: TaskArgs) => boolean {
+  return (state, args) =>
+    present.every((pattern) => {
+      const fact = substitute(pattern, args);
+      return fact !== undefined && state.has(...fact);
+    }) &&
+    absent.every((pattern) => {
+      const fact = substitute(pattern, args);
+      return fact === undefined || !state.has(...fact);
+    });
+}
+
+/**
+ * Returns an effect that deletes and then adds facts, after binding their
+ * variables to the task arguments.
+ *
+ * @throws {Error} when a fact refers to a variable that is not an argument.
+ */
+export function factEffect(changes: FactChanges): (state: FactState, args: TaskArgs) => FactState {
+  const bind = (patterns: ReadonlyArray<Fact> | undefined, args: TaskArgs): Fact[] =>
+    (patterns ?? []).map((pattern) => {
+      const fact = substitute(pattern, args);
+      if (fact === undefined) {
+        throw new Error(`Effect fact (${pattern.join(" ")}) has an unbound variable`);
+      }
+      return fact;
+    });
+  return (state, args) =>
+    state.apply({ delete: bind(changes.delete, args), add: bind(changes.add, args) });
+}
+
+/**
+ * Builds an {@link Operator} over a {@link FactState} from STRIPS-style
+ * precondition, add and delete lists.
+ *
+ * @example
+ * ```ts
+ * const drive = stripsOperator({
+ *   name: "Drive",
+ *   precondition: [["at", "?truck", "?from"], ["road", "?from", "?to"]],
+ *   delete: [["at", "?truck", "?from"]],
+ *   add: [["at", "?truck", "?to"]],
+ * });
+ * ```
+ */
+export function stripsOperator(definition: StripsOperatorDefinition): Operator<FactState> {
+  const operator: Operator<FactState> = {
+    name: definition.name,
+    condition: factCondition(definition.precondition ?? [], definition.absent),
+    effect: factEffect(definition),
+  };
+  if (definition.cost !== undefined) operator.cost = definition.cost;
+  return operator;
+}
@@ -0,0 +1,693 @@
+import type { Fact, HddlProblem, Method, Operator, TaskArgs, TaskCall } from "./types";
+import { Domain } from "./domain";
+import { FactState } from "./facts";
+import { HddlParseError } from "./errors";
+
+interface Position {
+  line: number;
+  column: number;
+}
+
+interface SymbolNode extends Position {
+  kind: "symbol";
+  value: string;
+}
+
+interface ListNode extends Position {
+  kind: "list";
+  items: SExpr[];
+}
+
+/** A parsed S-expression. Symbols are lower-cased, as HDDL is case-insensitive. */
+type SExpr = SymbolNode | ListNode;
+
+/** A `name - type` entry of a typed list (names without the leading `?`). */
+interface Typed {
+  name: string;
+  type: string;
+}
+
+/** Variable bindings (names without `?`) while evaluating formulas. */
+type Env = TaskArgs;
+
+type Test = (state: FactState, env: Env) => boolean;
+type Term = (env: Env) => string;
+type Apply = (before: FactState, env: Env, adds: Fact[], deletes: Fact[]) => void;
+
+interface ActionDef {
+  name: string;
+  params: Typed[];
+  precondition: SExpr | undefined;
+  effect: SExpr | undefined;
+  node: ListNode;
+}
+
+interface MethodDef {
+  name: string;
+  params: Typed[];
+  task: ListNode;
+  precondition: SExpr | undefined;
+  subtasks: TaskNetwork;
+  node: ListNode;
+}
+
+/** Type hierarchy and objects of a problem, used to enumerate variable values. */
+interface World {
+  parents: Map<string, string>;
+  objectTypes: Map<string, string>;
+  byType: Map<string, string[]>;
+}
+
+// ── Reading S-expressions ─────────────────────────────────────────────────────
+
+function fail(at: Position, message: string): never {
+  throw new HddlParseError(message, at.line, at.column);
+}
+
+/** Parses `source` into its top-level S-expressions. */
+function read(source: string): SExpr[] {
+  const top: SExpr[] = [];
+  const open: ListNode[] = [];
+  let line = 1;
+  let column = 1;
+  let i = 0;
+
+  const push = (node: SExpr): void => {
+    (open.length > 0 ? open[open.length - 1].items : top).push(node);
+  };
+
+  while (i < source.length) {
+    const ch = source[i];
+    if (ch === "\n") {
+      line++;
+      column = 1;
+      i++;
+    } else if (/\s/.test(ch)) {
+      column++;
+      i++;
+    } else if (ch === ";") {
+      while (i < source.length && source[i] !== "\n") i++;
+    } else if (ch === "(") {
+      const node: ListNode = { kind: "list", items: [], line, column };
+      push(node);
+      open.push(node);
+      column++;
+      i++;
+    } else if (ch === ")") {
+      if (open.pop() === undefined) fail({ line, column }, 'unexpected ")"');
+      column++;
+      i++;
+    } else {
+      const start = i;
+      while (i < source.length && !/[\s();]/.test(source[i])) i++;
+      push({ kind: "symbol", value: source.slice(start, i).toLowerCase(), line, column });
+      column += i - start;
+    }
+  }
+  if (open.length > 0) fail(open[open.length - 1], 'missing ")"');
+  return top;
+}
+
+function expectList(node: SExpr | undefined, what: string, parent: Position): ListNode {
+  if (node === undefined) fail(parent, `expected ${what}`);
+  if (node.kind !== "list") fail(node, `expected ${what}, got "${node.value}"`);
+  return node;
+}
+
+function expectSymbol(node: SExpr | undefined, what: string, parent: Position): string {
+  if (node === undefined) fail(parent, `expected ${what}`);
+  if (node.kind !== "symbol") fail(node, `expected ${what}, got a list`);
+  return node.value;
+}
+
+function headOf(node: ListNode): string | undefined {
+  const first = node.items[0];
+  return first?.kind === "symbol" ? first.value : undefined;
+}
+
+/** Reads `:keyword value` pairs starting at `items[start]`. */
+function keywordArgs(node: ListNode, start: number): Map<string, SExpr> {
+  const args = new Map<string, SExpr>();
+  for (let i = start; i < node.items.length; i += 2) {
+    const key = expectSymbol(node.items[i], "a keyword", node);
+    if (!key.startsWith(":")) fail(node.items[i], `expected a keyword, got "${key}"`);
+    const value = node.items[i + 1];
+    if (value === undefined) fail(node.items[i], `missing value for ${key}`);
+    args.set(key, value);
+  }
+  return args;
+}
+
+/** Reads a typed list such as `(?t - truck ?l1 ?l2 - location)`. */
+function typedList(node: ListNode, variables: boolean): Typed[] {
+  const result: Typed[] = [];
+  let pending: string[] = [];
+  for (let i = 0; i < node.items.length; i++) {
+    const item = node.items[i];
+    if (item.kind === "symbol" && item.value === "-") {
+      const typeNode = node.items[++i];
+      if (typeNode?.kind === "list") fail(typeNode, '"either" types are not supported');
+      const type = expectSymbol(typeNode, "a type name", item);
+      result.push(...pending.map((name) => ({ name, type })));
+      pending = [];
+      continue;
+    }
+    const name = expectSymbol(item, variables ? "a variable" : "a name", node);
+    if (variables && !name.startsWith("?")) fail(item, `expected a variable, got "${name}"`);
+    pending.push(variables ? name.slice(1) : name);
+  }
+  result.push(...pending.map((name) => ({ name, type: "object" })));
+  return result;
+}
+
+/** The members of `(and a b …)`, or the single expression itself; `()` has none. */
+function conjuncts(node: ListNode): SExpr[] {
+  if (headOf(node) === "and") return node.items.slice(1);
+  return node.items.length === 0 ? [] : [node];
+}
+
+/** The `:parameters` of a task, action or method. */
+function parameters(keywords: Map<string, SExpr>, owner: ListNode): Typed[] {
+  const params = keywords.get(":parameters");
+  return params === undefined ? [] : typedList(expectList(params, "parameters", owner), true);
+}
+
+/** The task atoms of a task network, e.g. `(and (t1 (drive ?v ?a)) (load ?p))`. */
+function networkTasks(node: SExpr, owner: Position): Array<{ label?: string; task: ListNode }> {
+  const network = expectList(node, "a task network", owner);
+  return conjuncts(network).map((entry) => {
+    const list = expectList(entry, "a subtask", network);
+    if (list.items[1]?.kind === "list") {
+      return { label: expectSymbol(list.items[0], "a subtask label", list), task: list.items[1] };
+    }
+    return { task: list };
+  });
+}
+
+/** The tasks of a task network, with its ordering unless it is totally ordered. */
+interface TaskNetwork {
+  tasks: ListNode[];
+  ordering?: Array<[number, number]>;
+}
+
+/**
+ * Reads a task network. Totally ordered networks keep their order. The
+ * tasks of a partially ordered one are sorted topologically by their
+ * `:ordering` constraints, keeping the listed order wherever the
+ * constraints allow, and the constraints are kept (by sorted position) so
+ * the planner can explore the other orders.
+ */
+function taskNetwork(keywords: Map<string, SExpr>, owner: Position): TaskNetwork {
+  const ordered = keywords.get(":ordered-subtasks") ?? keywords.get(":ordered-tasks");
+  if (ordered !== undefined) {
+    return { tasks: networkTasks(ordered, owner).map((entry) => entry.task) };
+  }
+
+  const network = keywords.get(":subtasks") ?? keywords.get(":tasks");
+  if (network === undefined) return { tasks: [] };
+  const entries = networkTasks(network, owner);
+
+  const index = new Map(entries.map((entry, i) => [entry.label, i]));
+  const before: number[][] = entries.map(() => []);
+  const ordering = keywords.get(":ordering");
+  if (ordering !== undefined) {
+    const constraints = expectList(ordering, "ordering constraints", owner);
+    for (const pair of conjuncts(constraints)) {
+      const list = expectList(pair, "an ordering constraint", constraints);
+      if (headOf(list) !== "<" || list.items.length !== 3) {
+        fail(list, 'expected "(< first second)"');
+      }
+      const [first, second] = [1, 2].map((k) => {
+        const label = expectSymbol(list.items[k], "a subtask label", list);
+        const at = index.get(label);
+        if (at === undefined) fail(list.items[k], `unknown subtask label "${label}"`);
+        return at;
+      });
+      before[second].push(first);
+    }
+  }
+
+  const position = new Map<number, number>();
+  const order: number[] = [];
+  while (order.length < entries.length) {
+    const next = entries.findIndex(
+      (_, i) => !position.has(i) && before[i].every((j) => position.has(j))
+    );
+    if (next === -1) fail(ordering!, "ordering constraints are cyclic");
+    position.set(next, order.length);
+    order.push(next);
+  }
+
+  const tasks = order.map((i) => entries[i].task);
+  const pairs = order.flatMap((i) =>
+    before[i].map((j): [number, number] => [position.get(j)!, position.get(i)!])
+  );
+  // The order is total exactly when each task is constrained to follow the
+  // one sorted just before it.
+  const total = tasks.every(
+    (_, k) => k === 0 || pairs.some(([first, second]) => first === k - 1 && second === k)
+  );
+  return total ? { tasks } : { tasks, ordering: pairs };
+}
+
+// ── Compiling formulas and effects ────────────────────────────────────────────
+
+function compileTerm(node: SExpr, owner: Position): Term {
+  const value = expectSymbol(node, "a variable or constant", owner);
+  if (!value.startsWith("?")) return () => value;
+  const name = value.slice(1);
+  return (env) => env[name] as string;
+}
+
+function compileAtom(node: ListNode): (env: Env) => Fact {
+  const predicate = expectSymbol(node.items[0], "a predicate", node);
+  const terms = node.items.slice(1).map((item) => compileTerm(item, node));
+  return (env) => [predicate, ...terms.map((term) => term(env))];
+}
+
+function isOfType(world: World, object: string, type: string): boolean {
+  if (type === "object") return true;
+  for (let t = world.objectTypes.get(object); t !== undefined; t = world.parents.get(t)) {
+    if (t === type) return true;
+  }
+  return false;
+}
+
+/** Every way to extend `env` with values for `vars`. */
+function* assignments(world: World, vars: ReadonlyArray<Typed>, env: Env): Generator<Env> {
+  if (vars.length === 0) {
+    yield env;
+    return;
+  }
+  const [first, ...rest] = vars;
+  for (const object of world.byType.get(first.type) ?? []) {
+    yield* assignments(world, rest, { ...env, [first.name]: object });
+  }
+}
+
+function compileFormula(node: SExpr | undefined, world: World, owner: Position): Test {
+  if (node === undefined) return () => true;
+  const list = expectList(node, "a formula", owner);
+  if (list.items.length === 0) return () => true;
+
+  const op = headOf(list);
+  const operands = list.items.slice(1);
+  switch (op) {
+    case "and": {
+      const parts = operands.map((part) => compileFormula(part, world, list));
+      return (state, env) => parts.every((part) => part(state, env));
+    }
+    case "or": {
+      const parts = operands.map((part) => compileFormula(part, world, list));
+      return (state, env) => parts.some((part) => part(state, env));
+    }
+    case "not": {
+      const inner = compileFormula(operands[0], world, list);
+      return (state, env) => !inner(state, env);
+    }
+    case "imply": {
+      const [premise, conclusion] = operands.map((part) => compileFormula(part, world, list));
+      return (state, env) => !premise(state, env) || conclusion(state, env);
+    }
+    case "=": {
+      const [left, right] = operands.map((term) => compileTerm(term, list));
+      return (_state, env) => left(env) === right(env);
+    }
+    case "forall":
+    case "exists": {
+      const vars = typedList(expectList(operands[0], "quantified variables", list), true);
+      const body = compileFormula(operands[1], world, list);
+      return op === "forall"
+        ? (state, env) => [...assignments(world, vars, env)].every((inner) => body(state, inner))
+        : (state, env) => [...assignments(world, vars, env)].some((inner) => body(state, inner));
+    }
+    default: {
+      const atom = compileAtom(list);
+      return (state, env) => state.has(...atom(env));
+    }
+  }
+}
+
+/**
+ * Compiles an effect. Constant `(increase (total-cost) n)` effects at the
+ * top level are summed into `cost.total` instead.
+ */
+function compileEffect(
+  node: SExpr | undefined,
+  world: World,
+  owner: Position,
+  cost: { total: number } | null
+): Apply {
+  if (node === undefined) return () => undefined;
+  const list = expectList(node, "an effect", owner);
+  if (list.items.length === 0) return () => undefined;
+
+  const op = headOf(list);
+  const operands = list.items.slice(1);
+  switch (op) {
+    case "and": {
+      const parts = operands.map((part) => compileEffect(part, world, list, cost));
+      return (before, env, adds, deletes) => {
+        for (const part of parts) part(before, env, adds, deletes);
+      };
+    }
+    case "not": {
+      const atom = compileAtom(expectList(operands[0], "an atom", list));
+      return (_before, env, _adds, deletes) => {
+        deletes.push(atom(env));
+      };
+    }
+    case "forall": {
+      const vars = typedList(expectList(operands[0], "quantified variables", list), true);
+      const body = compileEffect(operands[1], world, list, null);
+      return (before, env, adds, deletes) => {
+        for (const inner of assignments(world, vars, env)) body(before, inner, adds, deletes);
+      };
+    }
+    case "when": {
+      const condition = compileFormula(operands[0], world, list);
+      const body = compileEffect(operands[1], world, list, null);
+      return (before, env, adds, deletes) => {
+        if (condition(before, env)) body(before, env, adds, deletes);
+      };
+    }
+    case "increase": {
+      const amount = operands[1];
+      const target = operands[0];
+      if (
+        cost === null ||
+        target?.kind !== "list" ||
+        headOf(target) !== "total-cost" ||
+        amount?.kind !== "symbol" ||
+        !(Number(amount.value) >= 0)
+      ) {
+        fail(list, "only constant top-level (increase (total-cost) n) effects are supported");
+      }
+      cost.total += Number(amount.value);
+      return () => undefined;
+    }
+    default: {
+      const atom = compileAtom(list);
+      return (_before, env, adds) => {
+        adds.push(atom(env));
+      };
+    }
+  }
+}
+
+/** Positive atoms of a precondition's top-level conjunction, used to propose bindings. */
+function positiveAtoms(node: SExpr | undefined): ListNode[] {
+  if (node === undefined || node.kind !== "list" || node.items.length === 0) return [];
+  const op = headOf(node);
+  if (op === "and") return node.items.slice(1).flatMap(positiveAtoms);
+  if (op === undefined || ["or", "not", "imply", "=", "forall", "exists"].includes(op)) return [];
+  return [node];
+}
+
+// ── Building the domain ───────────────────────────────────────────────────────
+
+function compileAction(action: ActionDef, world: World): Operator<FactState> {
+  const precondition = compileFormula(action.precondition, world, action.node);
+  const cost = { total: 0 };
+  const effect = compileEffect(action.effect, world, action.node, cost);
+  const operator: Operator<FactState> = {
+    name: action.name,
+    condition: (state, args) => precondition(state, args),
+    effect: (state, args) => {
+      const changes = { add: [] as Fact[], delete: [] as Fact[] };
+      effect(state, args, changes.add, changes.delete);
+      return state.apply(changes);
+    },
+  };
+  if (cost.total > 0) operator.cost = cost.total;
+  return operator;
+}
+
+function compileMethod(
+  method: MethodDef,
+  world: World,
+  signatures: Map<string, string[]>,
+  compoundTasks: Set<string>
+): [string, Method<FactState>] {
+  const taskName = expectSymbol(method.task.items[0], "a task name", method.task);
+  if (!compoundTasks.has(taskName)) fail(method.task, `unknown compound task "${taskName}"`);
+  const taskParams = signatures.get(taskName)!;
+  const head = method.task.items.slice(1).map((item) => expectSymbol(item, "a term", method.task));
+  if (head.length !== taskParams.length) {
+    fail(method.task, `"${taskName}" takes ${taskParams.length} arguments, got ${head.length}`);
+  }
+
+  const precondition = compileFormula(method.precondition, world, method.node);
+  const atoms = positiveAtoms(method.precondition).map(
+    (atom) => atom.items.map((item) => expectSymbol(item, "a predicate or term", atom)) as [string]
+  );
+
+  const subtasks = method.subtasks.tasks.map((node) => {
+    const task = expectSymbol(node.items[0], "a task name", node);
+    const params = signatures.get(task);
+    if (params === undefined) fail(node, `unknown task "${task}"`);
+    const terms = node.items.slice(1).map((item) => compileTerm(item, node));
+    if (terms.length !== params.length) {
+      fail(node, `"${task}" takes ${params.length} arguments, got ${terms.length}`);
+    }
+    return { task, params, terms };
+  });
+
+  /** Binds the head from the task's arguments, the other variables from facts and types. */
+  function* bindings(state: FactState, args: TaskArgs): Generator<TaskArgs> {
+    const env: Record<string, string> = {};
+    for (let i = 0; i < head.length; i++) {
+      const value = args[taskParams[i]] as string;
+      if (!head[i].startsWith("?")) {
+        if (head[i] !== value) return;
+        continue;
+      }
+      const name = head[i].slice(1);
+      if (env[name] !== undefined && env[name] !== value) return;
+      env[name] = value;
+    }
+
+    const seen = new Set<string>();
+    for (const bound of state.matchAll(atoms, env)) {
+      const free = method.params.filter((param) => bound[param.name] === undefined);
+      for (const binding of assignments(world, free, bound)) {
+        const complete = binding as Record<string, string>;
+        if (!method.params.every((p) => isOfType(world, complete[p.name], p.type))) continue;
+        const key = method.params.map((p) => complete[p.name]).join(" ");
+        if (seen.has(key)) continue;
+        seen.add(key);
+        yield complete;
+      }
+    }
+  }
+
+  const compiled: Method<FactState> = {
+    name: method.name,
+    bindings,
+    condition: (state, args) => precondition(state, args),
+    subtasks: (_state, args) =>
+      subtasks.map(
+        ({ task, params, terms }): TaskCall => ({
+          task,
+          args: Object.fromEntries(params.map((param, i) => [param, terms[i](args)])),
+        })
+      ),
+  };
+  if (method.subtasks.ordering !== undefined) {
+    compiled.ordering = method.subtasks.ordering;
+  }
+  return [taskName, compiled];
+}
+
+/**
+ * Reads an HDDL domain file and a matching problem file and builds an
+ * equivalent planning problem over a {@link FactState}.
+ *
+ * Actions become operators whose arguments are named after their parameters
+ * (without the `?`), abstract tasks become compound tasks, and each method
+ * enumerates bindings for its extra variables from the facts matching its
+ * precondition and from the typed objects of the problem. Partially ordered
+ * task networks keep their `:ordering` constraints as {@link Method.ordering}
+ * (and {@link HddlProblem.goalOrdering} for the initial task network), and
+ * the problem's `:goal` becomes {@link HddlProblem.goalCondition}. Constant
+ * `(increase (total-cost) n)` effects become operator costs.
+ * Names and symbols are lower-cased.
+ *
+ * @throws {HddlParseError} on syntax errors and unsupported constructs.
+ *
+ * @example
+ * ```ts
+ * const problem = parseHddl(domainText, problemText);
+ * const result = createPlanner(problem).plan();
+ * ```
+ */
+export function parseHddl(domainSource: string, problemSource: string): HddlProblem {
+  const [domainNode] = read(domainSource);
+  const domainDef = expectList(domainNode, "(define (domain …) …)", { line: 1, column: 1 });
+  if (headOf(domainDef) !== "define") fail(domainDef, 'expected "define"');
+  const domainHeader = expectList(domainDef.items[1], "(domain name)", domainDef);
+  if (headOf(domainHeader) !== "domain") fail(domainHeader, 'expected "(domain name)"');
+  const domainName = expectSymbol(domainHeader.items[1], "a domain name", domainHeader);
+
+  const parents = new Map<string, string>();
+  const objectTypes = new Map<string, string>();
+  const signatures = new Map<string, string[]>();
+  const compoundTasks = new Set<string>();
+  const actions: ActionDef[] = [];
+  const methods: MethodDef[] = [];
+
+  for (const item of domainDef.items.slice(2)) {
+    const section = expectList(item, "a domain section", domainDef);
+    const name = headOf(section);
+    switch (name) {
+      case ":requirements":
+      case ":predicates":
+      case ":functions":
+        break;
+      case ":types":
+        for (const { name: type, type: parent } of typedList(section, false).slice(1)) {
+          parents.set(type, parent);
+        }
+        break;
+      case ":constants":
+        for (const constant of typedList(section, false).slice(1)) {
+          objectTypes.set(constant.name, constant.type);
+        }
+        break;
+      case ":task": {
+        const task = expectSymbol(section.items[1], "a task name", section);
+        const params = parameters(keywordArgs(section, 2), section);
+        signatures.set(task, params.map((p) => p.name));
+        compoundTasks.add(task);
+        break;
+      }
+      case ":action": {
+        const action = expectSymbol(section.items[1], "an action name", section);
+        const keywords = keywordArgs(section, 2);
+        const params = parameters(keywords, section);
+        signatures.set(action, params.map((p) => p.name));
+        actions.push({
+          name: action,
+          params,
+          precondition: keywords.get(":precondition"),
+          effect: keywords.get(":effect"),
+          node: section,
+        });
+        break;
+      }
+      case ":method": {
+        const method = expectSymbol(section.items[1], "a method name", section);
+        const keywords = keywordArgs(section, 2);
+        methods.push({
+          name: method,
+          params: parameters(keywords, section),
+          task: expectList(keywords.get(":task"), "the decomposed :task", section),
+          precondition: keywords.get(":precondition"),
+          subtasks: taskNetwork(keywords, section),
+          node: section,
+        });
+        break;
+      }
+      default:
+        fail(section, `unsupported domain section "${name ?? "(list)"}"`);
+    }
+  }
+
+  // ── Problem ────────────────────────────────────────────────────────────────
+  const [problemNode] = read(problemSource);
+  const problemDef = expectList(problemNode, "(define (problem …) …)", { line: 1, column: 1 });
+  if (headOf(problemDef) !== "define") fail(problemDef, 'expected "define"');
+  const problemHeader = expectList(problemDef.items[1], "(problem name)", problemDef);
+  if (headOf(problemHeader) !== "problem") fail(problemHeader, 'expected "(problem name)"');
+  const problemName = expectSymbol(problemHeader.items[1], "a problem name", problemHeader);
+
+  const facts: Fact[] = [];
+  const goals: TaskCall[] = [];
+  let goalOrdering: Array<[number, number]> | undefined;
+  let goalNode: SExpr | undefined;
+
+  for (const item of problemDef.items.slice(2)) {
+    const section = expectList(item, "a problem section", problemDef);
+    const name = headOf(section);
+    switch (name) {
+      case ":domain":
+      case ":requirements":
+        break;
+      case ":objects":
+        for (const object of typedList(section, false).slice(1)) {
+          objectTypes.set(object.name, object.type);
+        }
+        break;
+      case ":htn": {
+        const keywords = keywordArgs(section, 1);
+        const network = taskNetwork(keywords, section);
+        goalOrdering = network.ordering;
+        for (const node of network.tasks) {
+          const task = expectSymbol(node.items[0], "a task name", node);
+          const params = signatures.get(task);
+          if (params === undefined) fail(node, `unknown task "${task}"`);
+          const values = node.items.slice(1).map((arg) => {
+            const value = expectSymbol(arg, "an object", node);
+            if (value.startsWith("?")) {
+              fail(arg, "variables in the initial task network are not supported");
+            }
+            return value;
+          });
+          if (values.length !== params.length) {
+            fail(node, `"${task}" takes ${params.length} arguments, got ${values.length}`);
+          }
+          const args = Object.fromEntries(params.map((param, i) => [param, values[i]]));
+          goals.push({ task, args });
+        }
+        break;
+      }
+      case ":init":
+        for (const fact of section.items.slice(1)) {
+          const atom = expectList(fact, "a ground atom", section);
+          if (headOf(atom) === "=") continue; // numeric fluents such as (= (total-cost) 0)
+          facts.push(
+            atom.items.map((part) => expectSymbol(part, "a predicate or object", atom)) as [string]
+          );
+        }
+        break;
+      case ":goal":
+        goalNode = section.items[1];
+        break;
+      default:
+        fail(section, `unsupported problem section "${name ?? "(list)"}"`);
+    }
+  }
+
+  const byType = new Map<string, string[]>();
+  const objects: Record<string, string[]> = {};
+  for (const [object, type] of objectTypes) {
+    (objects[type] ??= []).push(object);
+    const types = new Set(["object"]);
+    for (let t: string | undefined = type; t !== undefined; t = parents.get(t)) types.add(t);
+    for (const t of types) byType.set(t, [...(byType.get(t) ?? []), object]);
+  }
+  const world: World = { parents, objectTypes, byType };
+
+  const domain = new Domain<FactState>();
+  for (const action of actions) domain.registerOperator(compileAction(action, world));
+  for (const method of methods) {
+    domain.registerMethod(...compileMethod(method, world, signatures, compoundTasks));
+  }
+
+  const problem: HddlProblem = {
+    domainName,
+    problemName,
+    domain,
+    initialState: FactState.from(facts),
+    goals,
+    objects,
+  };
+  if (goalOrdering !== undefined) {
+    problem.goalOrdering = goalOrdering;
+  }
+  if (goalNode !== undefined) {
+    const goal = compileFormula(goalNode, world, problemDef);
+    problem.goalCondition = (state) => goal(state, {});
+  }
+  return problem;
+}
@@ -1,18 +1,78 @@
 export type {
   State,
+  TaskArgs,
+  TaskCall,
+  TaskRef,
   Operator,
+  Resource,
+  ResourceAmount,
+  ResourceUsage,
   Method,
   CompoundTask,
   PlannerConfig,
+  PlanningStrategy,
   PlannerHooks,
   Plan,
+  PlanStep,
+  TimedPlanStep,
+  TimeWindow,
+  PrimitiveTaskNode,
+  CompoundTaskNode,
+  TaskNode,
   PlanningFailureReason,
   PlanningFailure,
+  FailedBranch,
+  PlanningStats,
+  PlanningSlice,
   PlanningSuccess,
   PlanningResult,
+  ActionCallback,
+  ReplanReason,
+  ExecutorHooks,
+  ExecutorConfig,
+  AsyncExecutorConfig,
+  ExecutedStep,
+  ExecutionFailureReason,
+  ExecutionSuccess,
+  ExecutionFailure,
+  ExecutionResult,
+  UnresolvedReference,
+  DomainValidationIssue,
+  MethodLocation,
+  DuplicateMethodName,
+  DomainAnalysis,
+  Expression,
+  EffectDefinition,
+  OperatorDefinition,
+  SubtaskDefinition,
+  MethodDefinition,
+  CompoundTaskDefinition,
+  DomainDefinition,
+  SchemaIssue,
+  Fact,
+  FactChanges,
+  StripsOperatorDefinition,
+  HddlProblem,
+  PlanDependency,
+  PlanGraph,
+  ScheduleOptions,
+  ScheduledStep,
+  PlanSchedule,
 } from "./types";
 
 export type { Domain as IDomain } from "./types";
 export { Domain } from "./domain";
+export { analyzeDomain } from "./analysis";
+export { produce, draftEffect, deepFreeze } from "./draft";
+export { FactState, factCondition, factEffect, stripsOperator } from "./facts";
+export { parseHddl } from "./hddl";
+export { buildPlanGraph, planLayers, schedulePlan } from "./parallel";
 export { createPlanner, Planner } from "./planner";
-export { PlannerMaxDepthError, DomainValidationError } from "./errors";
+export { createExecutor, createAsyncExecutor } from "./executor";
+export {
+  PlannerMaxDepthError,
+  DomainValidationError,
+  OperatorTimeoutError,
+  DomainSchemaError,
+  HddlParseError,
+} from "./errors";
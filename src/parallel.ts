@@ -0,0 +1,170 @@
+import type {
+  PlanDependency,
+  PlanGraph,
+  PlanSchedule,
+  PlanStep,
+  ScheduledStep,
+  ScheduleOptions,
+  TaskArgs,
+  TimedPlanStep,
+} from "./types";
+
+/** The key reported for dependencies on a step that declares no keys. */
+const WHOLE_STATE = "*";
+
+type Keys = ReadonlyArray<string> | ((args: TaskArgs) => ReadonlyArray<string>) | undefined;
+
+function resolveKeys(keys: Keys, args: TaskArgs): Set<string> {
+  if (keys === undefined) return new Set();
+  return new Set(typeof keys === "function" ? keys(args) : keys);
+}
+
+/**
+ * Turns a sequential plan into a partially ordered one, using the state keys
+ * its operators declare in `reads` and `writes`.
+ *
+ * Each step depends on the step that last wrote a key it reads (a causal
+ * link), and a step that writes a key depends on every earlier step that
+ * still reads or writes it (a threat), so running it earlier could not
+ * change what they see. Steps without any dependency between them may run
+ * in parallel. A step whose operator declares no keys depends on every step
+ * before it, and every later step that reads or writes a key depends on it.
+ *
+ * @example
+ * ```ts
+ * const result = createPlanner({ domain, initialState, goals }).plan();
+ * if (result.success) {
+ *   const graph = buildPlanGraph(result.steps);
+ *   planLayers(graph).forEach((layer) => runTogether(layer));
+ * }
+ * ```
+ */
+export function buildPlanGraph<TState>(steps: ReadonlyArray<PlanStep<TState>>): PlanGraph<TState> {
+  const dependencies: PlanDependency[] = [];
+  const predecessors: number[][] = [];
+  // Whether each step writes any key.
+  const writesAny: boolean[] = [];
+  // For every key: the step that wrote it last and the steps reading it since.
+  const writers = new Map<string, number>();
+  const readers = new Map<string, number[]>();
+  // The last step that declared no keys (it counts as writing every key),
+  // and the steps after it.
+  let barrier = -1;
+  let sinceBarrier: number[] = [];
+
+  steps.forEach(({ operator, args }, to) => {
+    const direct = new Set<number>();
+    const depend = (from: number, kind: PlanDependency["kind"], key: string) => {
+      dependencies.push({ from, to, kind, key });
+      direct.add(from);
+    };
+
+    if (operator.reads === undefined && operator.writes === undefined) {
+      if (barrier >= 0) depend(barrier, "causal", WHOLE_STATE);
+      for (const from of sinceBarrier) {
+        depend(from, writesAny[from] ? "causal" : "threat", WHOLE_STATE);
+      }
+      writers.clear();
+      readers.clear();
+      barrier = to;
+      sinceBarrier = [];
+      writesAny.push(true);
+    } else {
+      const reads = resolveKeys(operator.reads, args);
+      const writes = resolveKeys(operator.writes, args);
+      for (const key of reads) {
+        const from = writers.get(key) ?? barrier;
+        if (from >= 0) depend(from, "causal", key);
+      }
+      for (const key of writes) {
+        for (const from of readers.get(key) ?? []) depend(from, "threat", key);
+        const from = writers.get(key) ?? barrier;
+        if (from >= 0 && !reads.has(key)) depend(from, "threat", key);
+      }
+
+      for (const key of reads) {
+        if (writes.has(key)) continue;
+        const keyReaders = readers.get(key);
+        if (keyReaders === undefined) readers.set(key, [to]);
+        else keyReaders.push(to);
+      }
+      for (const key of writes) {
+        writers.set(key, to);
+        readers.delete(key);
+      }
+      sinceBarrier.push(to);
+      writesAny.push(writes.size > 0);
+    }
+    predecessors.push([...direct].sort((a, b) => a - b));
+  });
+
+  return { steps, dependencies, predecessors };
+}
+
+/**
+ * Groups the steps of a plan graph into layers that can run one after the
+ * other, the steps of each layer in parallel. Every step is placed in the
+ * earliest layer after all the steps it depends on, in plan order within
+ * its layer.
+ */
+export function planLayers<TState>(graph: PlanGraph<TState>): PlanStep<TState>[][] {
+  const layers: PlanStep<TState>[][] = [];
+  const layerOf: number[] = [];
+  graph.steps.forEach((step, index) => {
+    let layer = 0;
+    for (const from of graph.predecessors[index]) layer = Math.max(layer, layerOf[from] + 1);
+    layerOf.push(layer);
+    (layers[layer] ??= []).push(step);
+  });
+  return layers;
+}
+
+/**
+ * The duration of a step when {@link ScheduleOptions.duration} is not given:
+ * the time the planner simulated for it (see {@link TimedPlanStep}), else the
+ * operator's constant `duration`, else `1`.
+ */
+function defaultDuration<TState>(step: PlanStep<TState>): number {
+  const { start, end } = step as Partial<TimedPlanStep<TState>>;
+  if (start !== undefined && end !== undefined) return end - start;
+  const { duration } = step.operator;
+  return typeof duration === "number" ? duration : 1;
+}
+
+/**
+ * Schedules the steps of a plan graph: each step starts as soon as every
+ * step it depends on has ended, so independent steps overlap.
+ *
+ * @throws {RangeError} when a step's duration is negative or not a number.
+ *
+ * @example
+ * ```ts
+ * const { steps, makespan } = schedulePlan(buildPlanGraph(result.steps), {
+ *   duration: (step) => durations[step.operator.name],
+ * });
+ * ```
+ */
+export function schedulePlan<TState>(
+  graph: PlanGraph<TState>,
+  options: ScheduleOptions<TState> = {}
+): PlanSchedule<TState> {
+  const { duration = defaultDuration } = options;
+  const scheduled: ScheduledStep<TState>[] = [];
+  graph.steps.forEach((step, index) => {
+    const length = duration(step);
+    if (!(length >= 0)) {
+      throw new RangeError(
+        `Step ${index} ("${step.operator.name}") has an invalid duration (${length}); ` +
+          "durations must be non-negative numbers."
+      );
+    }
+    let start = 0;
+    for (const from of graph.predecessors[index]) start = Math.max(start, scheduled[from].end);
+    scheduled.push({ ...step, index, start, end: start + length });
+  });
+
+  return {
+    steps: [...scheduled].sort((a, b) => a.start - b.start || a.index - b.index),
+    makespan: scheduled.reduce((latest, step) => Math.max(latest, step.end), 0),
+  };
+}
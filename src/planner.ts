@@ -1,16 +1,58 @@
 import type {
+  CompoundTask,
   Domain,
+  FailedBranch,
+  Method,
   Operator,
   PlannerConfig,
   PlannerHooks,
+  PlanningFailure,
+  PlanningFailureReason,
   PlanningResult,
+  PlanningSlice,
+  PlanningStats,
+  PlanningSuccess,
+  Resource,
+  ResourceUsage,
+  TaskArgs,
+  TaskNode,
+  TaskRef,
+  TimedPlanStep,
+  TimeWindow,
 } from "./types";
-import { PlannerMaxDepthError } from "./errors";
+import { deepFreeze } from "./draft";
+import {
+  NO_ARGS,
+  methodCandidates,
+  methodSubtasks,
+  sameArgs,
+  staticSubtasks,
+  taskArgs,
+  taskName,
+} from "./tasks";
+import type { MethodCandidate } from "./tasks";
+import {
+  addNeeds,
+  applyResourceUsage,
+  exceededResource,
+  resourceNeeds,
+  resourceUsage,
+} from "./resources";
 
 export { PlannerMaxDepthError, DomainValidationError } from "./errors";
 
-/** Maximum recursion depth allowed before the planner aborts with an error. */
-const MAX_RECURSION_DEPTH = 1000;
+/**
+ * Default limit on how deeply compound tasks may nest before the planner
+ * treats the decomposition as cyclic and fails with `"MAX_DEPTH_EXCEEDED"`.
+ */
+const DEFAULT_MAX_DEPTH = 1000;
+
+/**
+ * Default limit on how many tail calls may follow each other before the
+ * planner treats the recursion as endless and fails with
+ * `"MAX_DEPTH_EXCEEDED"`.
+ */
+const DEFAULT_MAX_TAIL_CALLS = 100_000;
 
 /**
  * Returns true only when `key` is an **own** (non-inherited) property of
@@ -31,13 +73,15 @@ function hasOwnTask(obj: Record<string, unknown>, key: string): boolean {
  * This pre-validation lets the planner report a precise `UNKNOWN_TASK`
  * failure even when the unknown task is buried deep inside a method's
  * subtask list, rather than only catching unknown top-level goals.
+ * Subtask lists computed at planning time cannot be walked up front and
+ * are skipped.
  */
 function findFirstUnknownTask<TState>(
-  roots: ReadonlyArray<string>,
+  roots: ReadonlyArray<TaskRef>,
   domain: Domain<TState>
 ): string | null {
   const visited = new Set<string>();
-  const queue: string[] = [...roots];
+  const queue: string[] = roots.map(taskName);
   while (queue.length > 0) {
     const task = queue.shift()!;
     if (visited.has(task)) continue;
@@ -47,8 +91,8 @@ function findFirstUnknownTask<TState>(
 
     if (hasOwnTask(domain.compoundTasks as Record<string, unknown>, task)) {
       for (const method of domain.compoundTasks[task]!.methods) {
-        for (const subtask of method.subtasks) {
-          queue.push(subtask);
+        for (const subtask of staticSubtasks(method) ?? []) {
+          queue.push(taskName(subtask));
         }
       }
       continue;
@@ -59,86 +103,1463 @@ function findFirstUnknownTask<TState>(
   return null;
 }
 
+/** Cost charged for an operator that does not declare one. */
+const DEFAULT_OPERATOR_COST = 1;
+
+/** Parent id given to agenda items and decisions that are top-level goals. */
+const ROOT = -1;
+
+/** {@link Cursor.asleep} when no task is asleep. */
+const NONE_ASLEEP: ReadonlyArray<AgendaItem> = [];
+
+/** Task reported for a final state that violates {@link PlannerConfig.goalCondition}. */
+const GOAL_CONDITION = "(goal condition)";
+
+/**
+ * A task waiting to be processed, tagged with the id of the decision that
+ * produced it so the decomposition tree can be rebuilt.
+ */
+interface AgendaItem {
+  ref: TaskRef;
+  /** Index (in the decision log) of the compound expansion, or {@link ROOT}. */
+  parent: number;
+  /** Position of the task in its method's subtask list (or in the goals). */
+  index: number;
+  /** Position in the goals of the goal the task descends from. */
+  goal: number;
+}
+
 /**
- * Internal recursive DFS solver with backtracking.
+ * The remaining tasks as a persistent linked list. Expanding a method only
+ * allocates cells for its subtasks and shares the rest of the list, so
+ * neither expansion nor backtracking copies the agenda.
+ */
+interface Agenda {
+  item: AgendaItem;
+  next: Agenda | null;
+  /**
+   * Number of loose tasks from this cell to the end: tasks that may be
+   * unordered with respect to another pending task. Every other task is
+   * ordered with respect to all pending tasks as they appear on the agenda.
+   */
+  loose: number;
+}
+
+/** Returns a cell holding `item` in front of `next`. */
+function cell(item: AgendaItem, next: Agenda | null, loose: boolean): Agenda {
+  return { item, next, loose: (loose ? 1 : 0) + (next?.loose ?? 0) };
+}
+
+/** True when the task in `agenda`'s first cell is loose. */
+function isLoose(agenda: Agenda): boolean {
+  return agenda.loose > (agenda.next?.loose ?? 0);
+}
+
+/**
+ * Returns `refs` (tagged with `parent` and `goal`) followed by `rest`, in the
+ * listed order or in `order` (a permutation of their positions) when given.
+ * With a `null` goal the refs are the goals, tagged with their own position.
+ */
+function prepend(
+  refs: ReadonlyArray<TaskRef>,
+  parent: number,
+  goal: number | null,
+  rest: Agenda | null,
+  order?: ReadonlyArray<number>,
+  loose = false
+): Agenda | null {
+  let agenda = rest;
+  for (let i = refs.length - 1; i >= 0; i--) {
+    const index = order === undefined ? i : order[i];
+    const item = { ref: refs[index], parent, index, goal: goal ?? index };
+    agenda = cell(item, agenda, loose);
+  }
+  return agenda;
+}
+
+/** Returns `agenda` with the task in cell `target` moved to the front. */
+function moveToFront(agenda: Agenda, target: Agenda): Agenda {
+  if (target === agenda) return agenda;
+  const skipped: Agenda[] = [];
+  for (let node = agenda; node !== target; node = node.next!) {
+    skipped.push(node);
+  }
+  let rest = target.next;
+  for (let i = skipped.length - 1; i >= 0; i--) {
+    rest = cell(skipped[i].item, rest, isLoose(skipped[i]));
+  }
+  return cell(target.item, rest, isLoose(target));
+}
+
+/**
+ * The ordering of a method's subtasks (or of the goals) as the transitive
+ * closure of its constraints: `before[a][b]` is true when the task at
+ * position `a` must finish before the one at position `b` starts. `null`
+ * stands for the default, the listed order.
+ */
+type Precedence = ReadonlyArray<ReadonlyArray<boolean>> | null;
+
+function precedes(precedence: Precedence, a: number, b: number): boolean {
+  return precedence === null ? a < b : precedence[a][b];
+}
+
+/**
+ * Closes a set of ordering constraints between `count` tasks and picks an
+ * order that respects them, keeping the listed order wherever the
+ * constraints allow. `loose` tells whether two of the tasks are left
+ * unordered.
  *
- * @param tasks   Remaining task names to process.
- * @param state   Current simulated world state.
- * @param domain  Full domain description.
- * @param plan    Operators accumulated so far (mutated in place, rewound on backtrack).
- * @param depth   Current recursion depth (used for infinite-loop protection).
- * @param hooks   Optional observability callbacks.
- * @returns       The completed flat plan on success, or null when no plan exists.
+ * @throws {RangeError} when a constraint refers to a position outside the
+ *         list or the constraints are cyclic.
  */
-function solve<TState>(
-  tasks: string[],
+function orderTasks(
+  count: number,
+  ordering: ReadonlyArray<readonly [number, number]>,
+  owner: string
+): { precedence: boolean[][]; order: number[]; loose: boolean } {
+  const inRange = (i: number) => Number.isInteger(i) && i >= 0 && i < count;
+  const before = Array.from({ length: count }, () => new Array<boolean>(count).fill(false));
+  for (const [a, b] of ordering) {
+    if (!inRange(a) || !inRange(b)) {
+      throw new RangeError(
+        `${owner} has an ordering constraint [${a}, ${b}] outside its ${count} tasks.`
+      );
+    }
+    before[a][b] = true;
+  }
+  for (let k = 0; k < count; k++) {
+    for (let i = 0; i < count; i++) {
+      if (!before[i][k]) continue;
+      for (let j = 0; j < count; j++) {
+        if (before[k][j]) before[i][j] = true;
+      }
+    }
+  }
+  if (before.some((row, i) => row[i])) {
+    throw new RangeError(`${owner} has cyclic ordering constraints.`);
+  }
+
+  const order: number[] = [];
+  const placed = new Array<boolean>(count).fill(false);
+  while (order.length < count) {
+    const next = placed.findIndex(
+      (done, i) => !done && before.every((row, j) => placed[j] || !row[i])
+    );
+    placed[next] = true;
+    order.push(next);
+  }
+  const loose = before.some((row, i) =>
+    row.some((after, j) => i !== j && !after && !before[j][i])
+  );
+  return { precedence: before, order, loose };
+}
+
+/**
+ * How deeply a compound task is nested (see {@link PlannerConfig.maxDepth}).
+ * A task that is the last one left of its parent's subtasks is a tail call:
+ * once an operator has been applied since the chain of tail calls it belongs
+ * to was last entered, it takes the place of that chain instead of nesting
+ * inside it, so tail recursion does not nest deeper with every step. The
+ * length of the chain is limited separately (see
+ * {@link PlannerConfig.maxTailCalls}).
+ */
+interface Nesting {
+  /** Nesting level of the task (goals are level 1). */
+  level: number;
+  /** Level of the task the chain of tail calls started from. */
+  base: number;
+  /** Plan length when the chain was last entered. */
+  planLength: number;
+  /** Tail calls in the chain up to the task. */
+  calls: number;
+}
+
+/**
+ * One expansion on the current search branch. The decision log is a stack
+ * kept in lockstep with the search, so an entry's index is a stable id for
+ * as long as the branch it belongs to is alive.
+ */
+type Decision =
+  | { kind: "primitive"; task: string; args: TaskArgs; parent: number; planIndex: number }
+  | {
+      kind: "compound";
+      task: string;
+      args: TaskArgs;
+      parent: number;
+      method: string;
+      binding: TaskArgs | undefined;
+      /** Position of the task in its method's subtask list (or in the goals). */
+      index: number;
+      nesting: Nesting;
+      /** Key of the state the task was expanded in (cycle detection only). */
+      stateKey: string | number | undefined;
+      /** Clock when the task was expanded (cycle detection only). */
+      time: number;
+      /** Ordering of the chosen method's subtasks. */
+      precedence: Precedence;
+    };
+
+type CompoundDecision = Extract<Decision, { kind: "compound" }>;
+
+/** A complete plan found by the search, with its predicted final state. */
+interface Solution<TState> {
+  plan: TimedPlanStep<TState>[];
+  finalState: TState;
+  cost: number;
+  endTime: number;
+  /** Expansions that produced the plan, in the order they were made. */
+  decisions: Decision[];
+  /** State after each step (only when states are recorded). */
+  states?: TState[];
+}
+
+/** Per-run search settings and bookkeeping shared by every search step. */
+interface SearchContext<TState> {
+  domain: Domain<TState>;
+  hooks: PlannerHooks<TState> | undefined;
+  /** When true, keep searching after a solution to find the cheapest one. */
+  optimal: boolean;
+  /** Maximum nesting level of compound tasks (see {@link PlannerConfig.maxDepth}). */
+  maxDepth: number;
+  /** Maximum length of a chain of tail calls (see {@link PlannerConfig.maxTailCalls}). */
+  maxTailCalls: number;
+  /** When true, every state is deep-frozen (see {@link PlannerConfig.freezeStates}). */
+  freezeStates: boolean;
+  /** State key function, or `null` when cycle detection is off. */
+  stateHash: ((state: TState) => string | number) | null;
+  /** The first cycle pruned so far. */
+  cycle: FailedBranch<TState> | null;
+  /**
+   * Ids of the compound expansions on the current branch, by task, state key
+   * and time (see {@link expansionKey}), or `null` when cycle detection is off.
+   */
+  expanded: Map<string, number[]> | null;
+  /** Ordering of the goals (see {@link PlannerConfig.goalOrdering}). */
+  rootPrecedence: Precedence;
+  /**
+   * Agenda positions whose search space was exhausted, by state key and
+   * time, with the lowest cost they were reached at (see
+   * {@link PlannerConfig.memoize}), or `null` when memoization is off.
+   */
+  exhausted: WeakMap<Agenda, Map<string | number, Map<number, number>>> | null;
+  /** Compound expansions skipped because they were known to fail. */
+  memoHits: number;
+  /** Compound expansions looked up without finding a known failure. */
+  memoMisses: number;
+  /** Maximum number of tasks to process (`Infinity` when unlimited). */
+  maxExpansions: number;
+  /** Maximum planning time in milliseconds (`Infinity` when unlimited). */
+  timeoutMs: number;
+  /** Time by which every step must end (`Infinity` when unlimited). */
+  deadline: number;
+  /** Time windows of the goals (see {@link PlannerConfig.goalWindows}), or `null`. */
+  goalWindows: ReadonlyArray<TimeWindow | undefined> | null;
+  /** The domain's resources, or `null` when it declares none. */
+  resources: ResourceBounds<TState> | null;
+  /** The top-level goals, in the order they were given. */
+  goals: ReadonlyArray<TaskRef>;
+  /** Condition on the final state (see {@link PlannerConfig.goalCondition}), or `null`. */
+  goalCondition: ((finalState: TState) => boolean) | null;
+  /** Postconditions of the goals (see {@link PlannerConfig.goalPostconditions}), or `null`. */
+  goalPostconditions: ReadonlyArray<((state: TState) => boolean) | undefined> | null;
+  /** Time spent searching so far, excluding time spent paused. */
+  elapsedMs: number;
+  /** Tasks processed so far. */
+  expansions: number;
+  /** Method candidates tried so far. */
+  methodTries: number;
+  /** Method candidates abandoned so far. */
+  backtracks: number;
+  /** Operator effects applied so far. */
+  operatorApplications: number;
+  /** Deepest search depth reached so far. */
+  deepest: number;
+  /**
+   * Why the search stopped early (its budget ran out, or compound tasks
+   * nested deeper than `maxDepth` or chained more than `maxTailCalls` tail
+   * calls) and at which task, else `null`.
+   */
+  interrupted: { reason: "BUDGET_EXCEEDED" | "MAX_DEPTH_EXCEEDED"; task: string } | null;
+  /** Where the search stands on the current branch. */
+  cursor: Cursor<TState>;
+  /** Compound tasks on the current branch that still have untried candidates. */
+  choices: ChoicePoint<TState>[];
+  /** The plan found in the default mode, once the search has finished. */
+  solution: Solution<TState> | null;
+  /** Cheapest solution found so far (optimal search only). */
+  best: Solution<TState> | null;
+  /** Steps of the current branch (rewound on backtrack). */
+  plan: TimedPlanStep<TState>[];
+  /**
+   * State after each step of the current branch, kept in lockstep with the
+   * plan stack, or `null` when intermediate states are not recorded.
+   */
+  states: TState[] | null;
+  /** Decision log of the current branch (see {@link Decision}). */
+  decisions: Decision[];
+  /** The deepest dead end hit so far. */
+  deepestFailure: FailedBranch<TState> | null;
+  /** Every dead end hit so far, or `null` when not debugging. */
+  failedBranches: FailedBranch<TState>[] | null;
+}
+
+/** The resources of a domain and lower bounds on what its tasks need of them. */
+interface ResourceBounds<TState> {
+  names: string[];
+  resources: Resource<TState>[];
+  /** Lower bound per task on the net amount of each resource it consumes. */
+  needs: Map<string, number[]>;
+  /** The same bounds for every task from an agenda position to the end. */
+  remaining: WeakMap<Agenda, number[]>;
+}
+
+/** Where the search currently stands on its branch. */
+interface Cursor<TState> {
+  /** Remaining tasks, or `null` once the branch is complete. */
+  agenda: Agenda | null;
+  state: TState;
+  /** Accumulated cost of the plan so far. */
+  cost: number;
+  /** Simulated clock (see {@link PlannerConfig.startTime}). */
+  time: number;
+  /** Tasks processed on this branch so far (reported to hooks). */
+  depth: number;
+  /** True when an order choice point has just picked the task at the front. */
+  ordered: boolean;
+  /**
+   * Compound tasks this branch does not expand until an operator is applied:
+   * an earlier branch expanded each of them in the same state before the
+   * tasks this branch has expanded since, which covers expanding it after.
+   */
+  asleep: ReadonlyArray<AgendaItem>;
+}
+
+/** A method of a compound task, paired with one of its candidates. */
+interface CompoundCandidate<TState> extends MethodCandidate {
+  method: Method<TState>;
+}
+
+/**
+ * A compound task whose methods are still being tried: everything needed to
+ * restore the branch as it was before the task was expanded and to resume
+ * with its next candidate.
+ */
+interface MethodChoice<TState> {
+  kind: "method";
+  task: string;
+  args: TaskArgs;
+  parent: number;
+  index: number;
+  nesting: Nesting;
+  state: TState;
+  stateKey: string | number | undefined;
+  cost: number;
+  time: number;
+  depth: number;
+  /** The agenda with the compound task at its head. */
+  agenda: Agenda;
+  /** Tasks that follow the compound task on the agenda. */
+  rest: Agenda | null;
+  /** Remaining candidates, generated lazily in method order. */
+  candidates: Generator<CompoundCandidate<TState>>;
+  /** The candidate currently being explored, if any. */
+  tried: CompoundCandidate<TState> | null;
+  anyApplicable: boolean;
+  /** Tasks asleep when the task was reached (see {@link Cursor.asleep}). */
+  asleep: ReadonlyArray<AgendaItem>;
+  /** Plan length when the task was reached. */
+  planLength: number;
+  /** Decision log length when the task was reached (the id of its decision). */
+  decisionId: number;
+}
+
+/**
+ * A point where several tasks of a partially ordered agenda may run next:
+ * everything needed to restore the branch and to resume with the next of
+ * them.
+ */
+interface OrderChoice<TState> {
+  kind: "order";
+  state: TState;
+  cost: number;
+  time: number;
+  depth: number;
+  agenda: Agenda;
+  /** Agenda cells of the tasks that may run next, in agenda order. */
+  ready: Agenda[];
+  /** Position in `ready` of the next task to try. */
+  next: number;
+  planLength: number;
+  decisionId: number;
+  /** Tasks asleep when the choice was made (see {@link Cursor.asleep}). */
+  asleep: ReadonlyArray<AgendaItem>;
+}
+
+type ChoicePoint<TState> = MethodChoice<TState> | OrderChoice<TState>;
+
+/** Yields every candidate of every method of `compound`, in method order. */
+function* compoundCandidates<TState>(
+  compound: CompoundTask<TState>,
+  state: TState,
+  args: TaskArgs,
+  time: number
+): Generator<CompoundCandidate<TState>> {
+  for (const method of compound.methods) {
+    for (const candidate of methodCandidates(method, state, args, time)) {
+      yield { method, ...candidate };
+    }
+  }
+}
+
+/** Reason-specific details of a dead end (see {@link FailedBranch}). */
+type FailureDetails = Pick<FailedBranch<unknown>, "cycle" | "resource" | "goal">;
+
+/**
+ * Records a dead end: keeps it as the deepest failure when no earlier one
+ * was deeper (and as the reported cycle when it is the first one), and logs
+ * it when debugging. The task path is rebuilt from the decision log only
+ * when the failure is actually kept.
+ */
+function recordFailure<TState>(
+  ctx: SearchContext<TState>,
+  reason: PlanningFailureReason,
+  task: string,
+  args: TaskArgs,
+  parent: number,
   state: TState,
-  domain: Domain<TState>,
-  plan: Operator<TState>[],
   depth: number,
-  hooks: PlannerHooks<TState> | undefined
-): { plan: Operator<TState>[]; finalState: TState } | null {
-  if (depth > MAX_RECURSION_DEPTH) {
-    throw new PlannerMaxDepthError(MAX_RECURSION_DEPTH);
+  details: FailureDetails = {}
+): void {
+  const { cycle, resource, goal } = details;
+  const isDeepest = ctx.deepestFailure === null || depth > ctx.deepestFailure.depth;
+  const isFirstCycle = cycle !== undefined && ctx.cycle === null;
+  if (!isDeepest && !isFirstCycle && ctx.failedBranches === null) return;
+
+  const taskPath = [task];
+  for (let id = parent; id !== ROOT; id = ctx.decisions[id].parent) {
+    taskPath.push(ctx.decisions[id].task);
+  }
+  taskPath.reverse();
+  const failure: FailedBranch<TState> = { reason, task, args, taskPath, state, depth };
+  if (parent !== ROOT) {
+    const producer = ctx.decisions[parent];
+    if (producer.kind === "compound") failure.method = producer.method;
+  }
+  if (reason === "OPERATOR_PRECONDITION_FAILED") {
+    failure.operator = task;
+  }
+  if (cycle !== undefined) {
+    failure.cycle = cycle;
+  }
+  if (resource !== undefined) {
+    failure.resource = resource;
+  }
+  if (goal !== undefined) {
+    failure.goal = goal;
+  }
+
+  if (isDeepest) ctx.deepestFailure = failure;
+  if (isFirstCycle) ctx.cycle = failure;
+  ctx.failedBranches?.push(failure);
+}
+
+/** Key under which {@link SearchContext.expanded} files a compound expansion. */
+function expansionKey(task: string, stateKey: string | number, time: number): string {
+  return `${task}\u0000${typeof stateKey}:${stateKey}\u0000${time}`;
+}
+
+/**
+ * Looks for an ancestor of a compound task (starting at its `parent`) that is
+ * the same task with the same arguments, expanded in a state with the same
+ * key at the same time. Expanding the task again could only repeat what the
+ * ancestor did. Only expansions filed under the same key are considered, so
+ * the ancestor chain is walked only when one of them may match.
+ *
+ * @returns The task chain from that ancestor down to `task`, or `null`.
+ */
+function findCycle<TState>(
+  ctx: SearchContext<TState>,
+  task: string,
+  args: TaskArgs,
+  parent: number,
+  stateKey: string | number,
+  time: number
+): string[] | null {
+  const ids = ctx.expanded!.get(expansionKey(task, stateKey, time));
+  if (ids === undefined) return null;
+  // Ids grow down the tree, so one upward walk checks every candidate.
+  let ancestor = parent;
+  for (let i = ids.length - 1; i >= 0 && ancestor !== ROOT; i--) {
+    while (ancestor > ids[i]) ancestor = ctx.decisions[ancestor].parent;
+    if (ancestor === ids[i] && sameArgs(ctx.decisions[ancestor].args, args)) {
+      const chain = [task];
+      for (let id = parent; id !== ancestor; id = ctx.decisions[id].parent) {
+        chain.push(ctx.decisions[id].task);
+      }
+      chain.push(task);
+      return chain.reverse();
+    }
+  }
+  return null;
+}
+
+/**
+ * Checks the postcondition of goal `goal` (see
+ * {@link PlannerConfig.goalPostconditions}) once none of its tasks are left
+ * on `agenda`. Unless loose tasks are left, the tasks of a goal are all at
+ * its front.
+ *
+ * @returns `false` when the goal has been carried out and its postcondition
+ *          does not hold in `state`.
+ */
+function meetsPostcondition<TState>(
+  ctx: SearchContext<TState>,
+  goal: number,
+  agenda: Agenda | null,
+  state: TState
+): boolean {
+  const postcondition = ctx.goalPostconditions?.[goal];
+  if (postcondition === undefined) return true;
+  if (agenda !== null && agenda.loose === 0) {
+    if (agenda.item.goal === goal) return true;
+  } else {
+    for (let node = agenda; node !== null; node = node.next) {
+      if (node.item.goal === goal) return true;
+    }
+  }
+  return postcondition(state);
+}
+
+/** Records a goal whose postcondition failed as a dead end. */
+function recordUnmetGoal<TState>(
+  ctx: SearchContext<TState>,
+  goal: number,
+  state: TState,
+  depth: number
+): void {
+  const ref = ctx.goals[goal];
+  recordFailure(ctx, "GOAL_CONDITION_FAILED", taskName(ref), taskArgs(ref), ROOT, state, depth, {
+    goal,
+  });
+}
+
+/**
+ * Where an agenda item sits in the decomposition: its `[parent, index]`
+ * position, then that of each compound task above it up to the goals.
+ */
+function lineage<TState>(item: AgendaItem, ctx: SearchContext<TState>): Array<[number, number]> {
+  const path: Array<[number, number]> = [];
+  let { parent, index } = item;
+  for (;;) {
+    path.push([parent, index]);
+    if (parent === ROOT) return path;
+    ({ parent, index } = ctx.decisions[parent] as CompoundDecision);
+  }
+}
+
+/**
+ * Lists the agenda cells whose tasks may run next, in agenda order. A task
+ * is held back when, in some task network it belongs to, the subtask it
+ * descends from has to follow a subtask that still has pending tasks.
+ */
+function readyTasks<TState>(agenda: Agenda, ctx: SearchContext<TState>): Agenda[] {
+  const lineages: Array<Array<[number, number]>> = [];
+  // Positions with pending tasks in each task network, by its parent id.
+  const pending = new Map<number, Set<number>>();
+  for (let node: Agenda | null = agenda; node !== null; node = node.next) {
+    const path = lineage(node.item, ctx);
+    lineages.push(path);
+    for (const [parent, index] of path) {
+      let indices = pending.get(parent);
+      if (indices === undefined) {
+        indices = new Set();
+        pending.set(parent, indices);
+      }
+      indices.add(index);
+    }
+  }
+
+  const ready: Agenda[] = [];
+  let node: Agenda | null = agenda;
+  for (const path of lineages) {
+    const blocked = path.some(([parent, index]) => {
+      const precedence =
+        parent === ROOT
+          ? ctx.rootPrecedence
+          : (ctx.decisions[parent] as CompoundDecision).precedence;
+      for (const other of pending.get(parent)!) {
+        if (other !== index && precedes(precedence, other, index)) return true;
+      }
+      return false;
+    });
+    if (!blocked) ready.push(node!);
+    node = node!.next;
   }
+  return ready;
+}
+
+/** True when `item` is a compound task. */
+function isCompound<TState>(item: AgendaItem, ctx: SearchContext<TState>): boolean {
+  return hasOwnTask(ctx.domain.compoundTasks as Record<string, unknown>, taskName(item.ref));
+}
 
-  // Base case: no more tasks → plan is complete.
-  if (tasks.length === 0) {
-    return { plan: [...plan], finalState: state };
+/** True when `item` descends from the compound expansion with id `decisionId`. */
+function descendsFrom<TState>(
+  item: AgendaItem,
+  decisionId: number,
+  ctx: SearchContext<TState>
+): boolean {
+  let { parent } = item;
+  while (parent > decisionId) parent = (ctx.decisions[parent] as CompoundDecision).parent;
+  return parent === decisionId;
+}
+
+/**
+ * True when no task on `agenda` besides its first one descends from the
+ * compound expansion that produced the first one. Unless loose tasks are
+ * left, those tasks would directly follow it.
+ */
+function isTailCall<TState>(agenda: Agenda, ctx: SearchContext<TState>): boolean {
+  const { parent } = agenda.item;
+  if (agenda.loose === 0) {
+    return agenda.next === null || !descendsFrom(agenda.next.item, parent, ctx);
+  }
+  for (let node = agenda.next; node !== null; node = node.next) {
+    if (descendsFrom(node.item, parent, ctx)) return false;
   }
+  return true;
+}
 
-  const [current, ...rest] = tasks;
+/** Computes the {@link Nesting} of the compound task at the front of `agenda`. */
+function nestingOf<TState>(agenda: Agenda, ctx: SearchContext<TState>): Nesting {
+  const { parent } = agenda.item;
+  const planLength = ctx.plan.length;
+  if (parent === ROOT) return { level: 1, base: 1, planLength, calls: 0 };
+  const { level, base, planLength: entered, calls } = (
+    ctx.decisions[parent] as CompoundDecision
+  ).nesting;
+  if (!isTailCall(agenda, ctx)) {
+    return { level: level + 1, base: level + 1, planLength, calls: 0 };
+  }
+  if (planLength > entered) return { level: base, base, planLength, calls: calls + 1 };
+  return { level: level + 1, base, planLength: entered, calls: calls + 1 };
+}
 
-  hooks?.onTaskExpand?.(current, depth);
+/** Snapshots the current branch as a {@link Solution}. */
+function snapshot<TState>(cursor: Cursor<TState>, ctx: SearchContext<TState>): Solution<TState> {
+  const solution: Solution<TState> = {
+    plan: [...ctx.plan],
+    finalState: cursor.state,
+    cost: cursor.cost,
+    endTime: cursor.time,
+    decisions: [...ctx.decisions],
+  };
+  if (ctx.states !== null) {
+    solution.states = [...ctx.states];
+  }
+  return solution;
+}
+
+/**
+ * Rebuilds the decomposition tree from the decision log of a solution.
+ * Decisions are logged in the order the search made them, so appending each
+ * node to its parent's children lists them in the order the plan starts
+ * them.
+ */
+function buildTree(decisions: ReadonlyArray<Decision>): TaskNode[] {
+  const roots: TaskNode[] = [];
+  const children: TaskNode[][] = [];
+  for (const decision of decisions) {
+    let node: TaskNode;
+    if (decision.kind === "primitive") {
+      node = {
+        kind: "primitive",
+        task: decision.task,
+        args: decision.args,
+        planIndex: decision.planIndex,
+      };
+      children.push([]);
+    } else {
+      const nodeChildren: TaskNode[] = [];
+      node = {
+        kind: "compound",
+        task: decision.task,
+        args: decision.args,
+        method: decision.method,
+        children: nodeChildren,
+      };
+      if (decision.binding !== undefined) {
+        node.binding = decision.binding;
+      }
+      children.push(nodeChildren);
+    }
+    (decision.parent === ROOT ? roots : children[decision.parent]).push(node);
+  }
+  return roots;
+}
+
+/**
+ * Evaluates an operator's cost in `state`, rejecting negative values because
+ * branch-and-bound pruning is only sound for non-negative costs.
+ */
+function operatorCost<TState>(operator: Operator<TState>, state: TState, args: TaskArgs): number {
+  const { cost } = operator;
+  const value =
+    cost === undefined
+      ? DEFAULT_OPERATOR_COST
+      : typeof cost === "number"
+        ? cost
+        : cost(state, args);
+  if (!(value >= 0)) {
+    throw new RangeError(
+      `Operator "${operator.name}" has an invalid cost (${value}); costs must be non-negative numbers.`
+    );
+  }
+  return value;
+}
+
+/** Evaluates an operator's duration in `state`, rejecting negative values. */
+function operatorDuration<TState>(
+  operator: Operator<TState>,
+  state: TState,
+  args: TaskArgs
+): number {
+  const { duration } = operator;
+  const value =
+    duration === undefined ? 0 : typeof duration === "number" ? duration : duration(state, args);
+  if (!(value >= 0)) {
+    throw new RangeError(
+      `Operator "${operator.name}" has an invalid duration (${value}); ` +
+        "durations must be non-negative numbers."
+    );
+  }
+  return value;
+}
+
+/**
+ * Returns lower bounds on the net amount of each resource consumed by the
+ * tasks from `agenda` to the end. Agenda cells are shared by every branch
+ * that reaches them, so the bounds are kept per cell.
+ */
+function remainingNeeds<TState>(bounds: ResourceBounds<TState>, agenda: Agenda): number[] {
+  const pending: Agenda[] = [];
+  let node: Agenda | null = agenda;
+  while (node !== null && !bounds.remaining.has(node)) {
+    pending.push(node);
+    node = node.next;
+  }
+  let total = node === null ? bounds.names.map(() => 0) : bounds.remaining.get(node)!;
+  for (let i = pending.length - 1; i >= 0; i--) {
+    const need = bounds.needs.get(taskName(pending[i].item.ref));
+    total = need === undefined ? bounds.names.map(() => Infinity) : addNeeds(need, total);
+    bounds.remaining.set(pending[i], total);
+  }
+  return total;
+}
+
+/**
+ * Returns the first resource that the tasks left on `agenda` are bound to
+ * take below its `min` from the amount held in `state`, or `null`. Tasks
+ * that cannot be completed at all are left for the search to find out.
+ */
+function exhaustedResource<TState>(
+  bounds: ResourceBounds<TState>,
+  agenda: Agenda,
+  state: TState
+): string | null {
+  const needs = remainingNeeds(bounds, agenda);
+  for (let i = 0; i < needs.length; i++) {
+    const { get, min = 0 } = bounds.resources[i];
+    if (needs[i] !== Infinity && get(state) - needs[i] < min) return bounds.names[i];
+  }
+  return null;
+}
+
+/**
+ * Processes the task at the front of the agenda.
+ *
+ * An applicable operator is applied and the cursor moves past it. A compound
+ * task becomes a new choice point whose candidates are tried by
+ * {@link backtrack}. When a partially ordered agenda lets several tasks run
+ * next, the choice between them becomes a choice point first. Expansions
+ * leave the state unchanged, so two compound tasks expanded one after the
+ * other are only expanded in one of the two orders: a branch does not expand
+ * tasks that are asleep (see {@link Cursor.asleep}).
+ *
+ * @returns `true` when the cursor moved forward, `false` when the branch
+ *          cannot continue from here or compound tasks nest deeper than
+ *          `ctx.maxDepth` or chain more than `ctx.maxTailCalls` tail calls
+ *          (which sets `ctx.interrupted`).
+ */
+function advance<TState>(
+  cursor: Cursor<TState>,
+  choices: ChoicePoint<TState>[],
+  ctx: SearchContext<TState>
+): boolean {
+  const { domain, hooks } = ctx;
+  const { state, cost, depth } = cursor;
+
+  // A task that is not loose has to run before every task behind it, and
+  // only two loose tasks can be unordered with respect to each other.
+  if (!cursor.ordered && cursor.agenda!.loose > 1 && isLoose(cursor.agenda!)) {
+    let ready = readyTasks(cursor.agenda!, ctx);
+    if (cursor.asleep.length > 0) {
+      ready = ready.filter((node) => !cursor.asleep.includes(node.item));
+      // Every task that may run next was already tried in this state.
+      if (ready.length === 0) return false;
+      cursor.agenda = moveToFront(cursor.agenda!, ready[0]);
+    }
+    if (ready.length > 1) {
+      // backtrack() moves each ready task to the front in turn.
+      choices.push({
+        kind: "order",
+        state,
+        cost,
+        time: cursor.time,
+        depth,
+        agenda: cursor.agenda!,
+        ready,
+        next: 0,
+        planLength: ctx.plan.length,
+        decisionId: ctx.decisions.length,
+        asleep: cursor.asleep,
+      });
+      return false;
+    }
+  }
+  cursor.ordered = false;
+
+  const { item, next: rest } = cursor.agenda!;
+  const { ref, parent, index } = item;
+  // A task that has to run next but is asleep was already tried first.
+  if (cursor.asleep.includes(item)) return false;
+
+  const window = parent === ROOT ? ctx.goalWindows?.[index] : undefined;
+  if (window?.earliest !== undefined && cursor.time < window.earliest) {
+    // The goal's time window has not opened yet, so the clock waits.
+    cursor.time = window.earliest;
+  }
+  const { time } = cursor;
+  const current = taskName(ref);
+  const args = taskArgs(ref);
+
+  ctx.expansions++;
+  if (depth > ctx.deepest) ctx.deepest = depth;
+  hooks?.onTaskExpand?.(current, depth, args);
+
+  if (ctx.resources !== null) {
+    const exhausted = exhaustedResource(ctx.resources, cursor.agenda!, state);
+    if (exhausted !== null) {
+      // Prune: the remaining tasks need more than is left, however they
+      // are decomposed.
+      recordFailure(ctx, "RESOURCE_BOUNDS_EXCEEDED", current, args, parent, state, depth, {
+        resource: exhausted,
+      });
+      return false;
+    }
+  }
 
   // ── Primitive task (Operator) ────────────────────────────────────────────
   if (hasOwnTask(domain.operators as Record<string, unknown>, current)) {
     const operator = domain.operators[current];
 
-    if (!operator.condition(state)) {
+    if (!operator.condition(state, args)) {
       // Precondition failed → backtrack immediately.
-      return null;
+      recordFailure(ctx, "OPERATOR_PRECONDITION_FAILED", current, args, parent, state, depth);
+      return false;
     }
 
-    const nextState = operator.effect(state);
-    hooks?.onOperatorApply?.(current, state, nextState);
-    plan.push(operator);
-    const result = solve(rest, nextState, domain, plan, depth + 1, hooks);
-    if (result !== null) {
-      return result;
+    const usage = resourceUsage(domain, operator, state, args);
+    const exceeded = usage === null ? null : exceededResource(domain, state, usage);
+    if (exceeded !== null) {
+      recordFailure(ctx, "RESOURCE_BOUNDS_EXCEEDED", current, args, parent, state, depth, {
+        resource: exceeded,
+      });
+      return false;
     }
-    // Rewind and signal failure upward.
-    plan.pop();
-    return null;
+
+    const end = time + operatorDuration(operator, state, args);
+    const latest = ctx.goalWindows?.[item.goal]?.latest ?? Infinity;
+    if (end > ctx.deadline || end > latest) {
+      recordFailure(ctx, "DEADLINE_MISSED", current, args, parent, state, depth);
+      return false;
+    }
+
+    const nextCost = cost + operatorCost(operator, state, args);
+    if (ctx.best !== null && nextCost >= ctx.best.cost) {
+      // Bound: this branch can no longer beat the best plan found so far.
+      return false;
+    }
+
+    let nextState = operator.effect(state, args);
+    if (usage !== null) nextState = applyResourceUsage(domain, nextState, usage);
+    if (ctx.freezeStates) nextState = deepFreeze(nextState);
+    ctx.operatorApplications++;
+    hooks?.onOperatorApply?.(current, state, nextState, args);
+    if (ctx.goalPostconditions !== null) {
+      if (!meetsPostcondition(ctx, item.goal, rest, nextState)) {
+        recordUnmetGoal(ctx, item.goal, nextState, depth);
+        return false;
+      }
+    }
+    ctx.decisions.push({
+      kind: "primitive",
+      task: current,
+      args,
+      parent,
+      planIndex: ctx.plan.length,
+    });
+    const step: TimedPlanStep<TState> = { operator, args, start: time, end };
+    if (usage !== null) step.resources = usage;
+    ctx.plan.push(step);
+    ctx.states?.push(nextState);
+
+    cursor.agenda = rest;
+    cursor.state = nextState;
+    cursor.cost = nextCost;
+    cursor.time = end;
+    cursor.depth = depth + 1;
+    cursor.asleep = NONE_ASLEEP;
+    return true;
   }
 
   // ── Compound task ────────────────────────────────────────────────────────
   if (hasOwnTask(domain.compoundTasks as Record<string, unknown>, current)) {
-    const compound = domain.compoundTasks[current];
+    const nesting = nestingOf(cursor.agenda!, ctx);
+    if (nesting.level > ctx.maxDepth || nesting.calls > ctx.maxTailCalls) {
+      ctx.interrupted = { reason: "MAX_DEPTH_EXCEEDED", task: current };
+      return false;
+    }
+
+    const stateKey = ctx.stateHash?.(state);
+    if (stateKey !== undefined) {
+      const cycle = findCycle(ctx, current, args, parent, stateKey, time);
+      if (cycle !== null) {
+        // Prune: this expansion cannot get anywhere its ancestor did not.
+        recordFailure(ctx, "CYCLE_DETECTED", current, args, parent, state, depth, { cycle });
+        return false;
+      }
+      if (ctx.exhausted !== null) {
+        const exhaustedAt = ctx.exhausted.get(cursor.agenda!)?.get(stateKey)?.get(time);
+        if (exhaustedAt !== undefined && cost >= exhaustedAt) {
+          // The same remaining tasks were already searched from this state
+          // and time (at no higher cost) without finding a plan.
+          ctx.memoHits++;
+          hooks?.onMemoHit?.(current, depth, args);
+          return false;
+        }
+        ctx.memoMisses++;
+      }
+    }
+
+    // Leave the branch at the choice point; backtrack() tries its first
+    // candidate just as it resumes with the next one after a dead end.
+    choices.push({
+      kind: "method",
+      task: current,
+      args,
+      parent,
+      index,
+      nesting,
+      state,
+      stateKey,
+      cost,
+      time,
+      depth,
+      agenda: cursor.agenda!,
+      rest,
+      candidates: compoundCandidates(domain.compoundTasks[current], state, args, time),
+      tried: null,
+      anyApplicable: false,
+      asleep: cursor.asleep,
+      planLength: ctx.plan.length,
+      decisionId: ctx.decisions.length,
+    });
+    return false;
+  }
+
+  // ── Unknown task ─────────────────────────────────────────────────────────
+  // Only reachable through subtask lists computed at planning time; static
+  // references are pre-validated before the search starts.
+  recordFailure(ctx, "UNKNOWN_TASK", current, args, parent, state, depth);
+  return false;
+}
+
+/**
+ * Resumes the search at the most recent choice point that still has an
+ * untried candidate: rewinds the branch to that point, inlines the
+ * candidate's subtasks in front of the remaining tasks (or moves the next
+ * ready task to the front) and moves the cursor there. Exhausted choice
+ * points are discarded on the way.
+ *
+ * @returns `true` when a candidate was found, `false` when the whole search
+ *          space is exhausted.
+ */
+function backtrack<TState>(
+  cursor: Cursor<TState>,
+  choices: ChoicePoint<TState>[],
+  ctx: SearchContext<TState>
+): boolean {
+  const { hooks } = ctx;
+
+  while (choices.length > 0) {
+    const choice = choices[choices.length - 1];
+
+    if (choice.kind === "order") {
+      rewind(ctx, choice);
+      if (choice.next < choice.ready.length) {
+        const task = choice.ready[choice.next++];
+        cursor.agenda = moveToFront(choice.agenda, task);
+        cursor.state = choice.state;
+        cursor.cost = choice.cost;
+        cursor.time = choice.time;
+        cursor.depth = choice.depth;
+        cursor.ordered = true;
+        // Compound tasks tried before this one could only be expanded after
+        // it in the same state, which their own branches already covered.
+        cursor.asleep = NONE_ASLEEP;
+        if (isCompound(task.item, ctx)) {
+          const tried = choice.ready.slice(0, choice.next - 1).map((node) => node.item);
+          cursor.asleep = [...choice.asleep, ...tried.filter((item) => isCompound(item, ctx))];
+        }
+        return true;
+      }
+      choices.pop();
+      continue;
+    }
+
+    if (choice.tried !== null) {
+      // The candidate being explored led to a dead end → rewind the branch.
+      rewind(ctx, choice);
+      const { method, binding } = choice.tried;
+      ctx.backtracks++;
+      hooks?.onBacktrack?.(choice.task, method.name, choice.depth, binding);
+      choice.tried = null;
+    }
+
+    const next = choice.candidates.next();
+    if (next.done !== true) {
+      const candidate = next.value;
+      const { method, args: bound, binding } = candidate;
+      choice.tried = candidate;
+      choice.anyApplicable = true;
+      ctx.methodTries++;
+      hooks?.onMethodTry?.(choice.task, method.name, choice.depth, binding);
+
+      const subtasks = methodSubtasks(method, choice.state, bound);
+      let precedence: Precedence = null;
+      let order: number[] | undefined;
+      // The subtasks of a loose task stay loose while another loose task is
+      // pending; once it is the last one, they are ordered by the method alone.
+      let loose = isLoose(choice.agenda) && choice.agenda.loose > 1;
+      if (method.ordering !== undefined) {
+        const ordered = orderTasks(subtasks.length, method.ordering, `Method "${method.name}"`);
+        ({ precedence, order } = ordered);
+        loose ||= ordered.loose;
+      }
+      ctx.decisions.push({
+        kind: "compound",
+        task: choice.task,
+        args: choice.args,
+        parent: choice.parent,
+        method: method.name,
+        binding,
+        index: choice.index,
+        nesting: choice.nesting,
+        stateKey: choice.stateKey,
+        time: choice.time,
+        precedence,
+      });
+      if (choice.stateKey !== undefined) {
+        const key = expansionKey(choice.task, choice.stateKey, choice.time);
+        const ids = ctx.expanded!.get(key);
+        if (ids === undefined) ctx.expanded!.set(key, [choice.decisionId]);
+        else ids.push(choice.decisionId);
+      }
+      if (subtasks.length === 0 && ctx.goalPostconditions !== null) {
+        // The task is done at once, and may be the last one of its goal.
+        const { goal } = choice.agenda.item;
+        if (!meetsPostcondition(ctx, goal, choice.rest, choice.state)) {
+          recordUnmetGoal(ctx, goal, choice.state, choice.depth);
+          continue;
+        }
+      }
+      cursor.agenda = prepend(
+        subtasks,
+        choice.decisionId,
+        choice.agenda.item.goal,
+        choice.rest,
+        order,
+        loose
+      );
+      cursor.state = choice.state;
+      cursor.cost = choice.cost;
+      cursor.time = choice.time;
+      cursor.depth = choice.depth + 1;
+      cursor.ordered = false;
+      cursor.asleep = choice.asleep;
+      return true;
+    }
+
+    // All candidates exhausted. Failures below an applicable candidate were
+    // already recorded deeper down.
+    if (!choice.anyApplicable) {
+      recordFailure(
+        ctx,
+        "NO_APPLICABLE_METHOD",
+        choice.task,
+        choice.args,
+        choice.parent,
+        choice.state,
+        choice.depth
+      );
+    }
+    // With tasks asleep, part of the search space was left to other branches.
+    if (ctx.exhausted !== null && choice.stateKey !== undefined && choice.asleep.length === 0) {
+      rememberExhausted(ctx, choice);
+    }
+    choices.pop();
+  }
+  return false;
+}
+
+/** Rewinds the current branch to where `choice` was made. */
+function rewind<TState>(ctx: SearchContext<TState>, choice: ChoicePoint<TState>): void {
+  ctx.plan.length = choice.planLength;
+  if (ctx.states !== null) ctx.states.length = choice.planLength;
+  for (let id = ctx.decisions.length - 1; id >= choice.decisionId; id--) {
+    const decision = ctx.decisions[id];
+    if (decision.kind !== "compound" || decision.stateKey === undefined) continue;
+    const key = expansionKey(decision.task, decision.stateKey, decision.time);
+    const ids = ctx.expanded!.get(key)!;
+    ids.pop();
+    if (ids.length === 0) ctx.expanded!.delete(key);
+  }
+  ctx.decisions.length = choice.decisionId;
+}
+
+/**
+ * Memoizes an exhausted choice point. Its agenda node is shared by every
+ * branch that backtracks to an earlier choice point, so revisiting the same
+ * remaining tasks in an equivalent state at the same time can be skipped.
+ * In optimal mode a search space also counts as exhausted once it cannot
+ * beat the best plan, so it is only skipped when reached again at no lower
+ * cost.
+ */
+function rememberExhausted<TState>(ctx: SearchContext<TState>, choice: MethodChoice<TState>): void {
+  let byState = ctx.exhausted!.get(choice.agenda);
+  if (byState === undefined) {
+    byState = new Map();
+    ctx.exhausted!.set(choice.agenda, byState);
+  }
+  let byTime = byState.get(choice.stateKey!);
+  if (byTime === undefined) {
+    byTime = new Map();
+    byState.set(choice.stateKey!, byTime);
+  }
+  const cost = ctx.optimal ? choice.cost : -Infinity;
+  const known = byTime.get(choice.time);
+  if (known === undefined || cost < known) byTime.set(choice.time, cost);
+}
 
-    for (const method of compound.methods) {
-      if (!method.condition(state)) {
-        continue; // Try next method.
+/** Where a single slice of the search has to pause. */
+interface SliceLimits {
+  /** Value of `ctx.expansions` at which to pause. */
+  expansions: number;
+  /** `Date.now()` value at which to pause. */
+  deadline: number;
+}
+
+/**
+ * Iterative DFS solver with backtracking. The branch being explored lives in
+ * `ctx` and every compound task still holding untried candidates is kept on
+ * an explicit stack of choice points, so plan length is bounded by memory
+ * rather than by the call stack, and the search can pause between any two
+ * tasks and resume later.
+ *
+ * In the default mode the first complete plan is stored in `ctx.solution`.
+ * In optimal mode every decomposition is explored (branch-and-bound):
+ * complete plans are recorded in `ctx.best` and branches whose accumulated
+ * cost already reaches the best cost are pruned.
+ *
+ * The search also finishes, with `ctx.interrupted` set, once the overall
+ * expansion budget or time budget is used up, or compound tasks nest deeper
+ * than `maxDepth` or chain more than `maxTailCalls` tail calls.
+ *
+ * @param ctx       Search settings and bookkeeping, including the branch.
+ * @param slice     Where this call has to pause.
+ * @param startedAt `Date.now()` when this call started.
+ * @returns         `true` when the search has finished, `false` when it paused.
+ */
+function solve<TState>(
+  ctx: SearchContext<TState>,
+  slice: SliceLimits,
+  startedAt: number
+): boolean {
+  const { cursor, choices } = ctx;
+
+  for (;;) {
+    if (cursor.agenda === null) {
+      // No more tasks → plan is complete, unless its final state misses the
+      // goal condition.
+      if (ctx.goalCondition !== null && !ctx.goalCondition(cursor.state)) {
+        recordFailure(
+          ctx,
+          "GOAL_CONDITION_FAILED",
+          GOAL_CONDITION,
+          NO_ARGS,
+          ROOT,
+          cursor.state,
+          cursor.depth
+        );
+      } else if (!ctx.optimal) {
+        ctx.solution = snapshot(cursor, ctx);
+        return true;
+      } else if (ctx.best === null || cursor.cost < ctx.best.cost) {
+        ctx.best = snapshot(cursor, ctx);
+      }
+      // Keep exploring: another decomposition may meet the goal condition,
+      // or be cheaper.
+    } else {
+      const now = Date.now();
+      if (ctx.expansions >= ctx.maxExpansions || ctx.elapsedMs + now - startedAt >= ctx.timeoutMs) {
+        ctx.interrupted = { reason: "BUDGET_EXCEEDED", task: taskName(cursor.agenda.item.ref) };
+        return true;
       }
+      if (ctx.expansions >= slice.expansions || now >= slice.deadline) {
+        return false;
+      }
+      if (advance(cursor, choices, ctx)) {
+        continue;
+      }
+      if (ctx.interrupted !== null) return true;
+    }
+    if (!backtrack(cursor, choices, ctx)) {
+      return true;
+    }
+  }
+}
+
+/** Builds the result of a finished search. */
+function finish<TState>(
+  ctx: SearchContext<TState>,
+  goals: ReadonlyArray<TaskRef>
+): PlanningResult<TState> {
+  const stats: PlanningStats = {
+    expansions: ctx.expansions,
+    methodTries: ctx.methodTries,
+    backtracks: ctx.backtracks,
+    operatorApplications: ctx.operatorApplications,
+    maxSearchDepth: ctx.deepest,
+    elapsedMs: ctx.elapsedMs,
+  };
+  if (ctx.exhausted !== null) {
+    stats.memoHits = ctx.memoHits;
+    stats.memoMisses = ctx.memoMisses;
+  }
 
-      hooks?.onMethodTry?.(current, method.name, depth);
+  if (ctx.interrupted !== null) {
+    // Stopped early: even a plan found in optimal mode is not known to be
+    // the cheapest, so report how far the search got instead.
+    return {
+      success: false,
+      reason: ctx.interrupted.reason,
+      failedTask: ctx.interrupted.task,
+      stats,
+    };
+  }
+
+  const solution = ctx.solution ?? ctx.best;
+  if (solution === null) {
+    // A pruned cycle points at a flaw in the domain, so it is reported ahead
+    // of the deepest dead end. Every failed search records at least one dead
+    // end; the fallback only guards against a domain that fails without any.
+    const reported = ctx.cycle ?? ctx.deepestFailure;
+    const failure: PlanningFailure<TState> = {
+      success: false,
+      reason: reported?.reason ?? "NO_APPLICABLE_METHOD",
+      failedTask: reported?.task ?? (goals.length > 0 ? taskName(goals[0]) : "(unknown)"),
+      stats,
+    };
+    if (ctx.cycle?.cycle !== undefined) {
+      failure.cycle = ctx.cycle.cycle;
+    }
+    if (ctx.deepestFailure !== null) {
+      failure.deepestFailure = ctx.deepestFailure;
+    }
+    if (ctx.failedBranches !== null) {
+      failure.failedBranches = ctx.failedBranches;
+    }
+    return failure;
+  }
 
-      // Inline the subtasks in front of the remaining tasks and recurse.
-      const expanded = [...method.subtasks, ...rest];
-      const result = solve(expanded, state, domain, plan, depth + 1, hooks);
-      if (result !== null) {
-        return result;
+  const success: PlanningSuccess<TState> = {
+    success: true,
+    plan: solution.plan.map((step) => step.operator),
+    steps: solution.plan,
+    cost: solution.cost,
+    endTime: solution.endTime,
+    finalState: solution.finalState,
+    tree: buildTree(solution.decisions),
+    stats,
+  };
+  if (ctx.resources !== null) {
+    const totals: Record<string, ResourceUsage> = {};
+    for (const name of ctx.resources.names) totals[name] = { consumed: 0, produced: 0 };
+    for (const { resources } of solution.plan) {
+      for (const [name, { consumed, produced }] of Object.entries(resources ?? {})) {
+        totals[name].consumed += consumed;
+        totals[name].produced += produced;
       }
-      // This method led to a dead-end → try the next one (backtracking).
-      hooks?.onBacktrack?.(current, method.name, depth);
     }
+    success.resources = totals;
+  }
+  if (solution.states !== undefined) {
+    success.states = solution.states;
+  }
+  return success;
+}
 
-    // All methods exhausted with no solution.
-    return null;
+/**
+ * Starts a search for `config` that is carried out in slices. Shared by
+ * {@link createPlanner}'s `plan()` (a single unlimited slice) and
+ * `planIncrementally()`.
+ */
+function startPlanning<TState>(config: PlannerConfig<TState>) {
+  const { domain, initialState, goals } = config;
+  let result: PlanningResult<TState> | null = null;
+  let ctx: SearchContext<TState> | null = null;
+
+  if (config.memoize === true && config.stateHash === undefined) {
+    throw new TypeError("memoize requires a stateHash to recognize equivalent states");
+  }
+  // Pre-validate: walk every task reachable from the goals (including all
+  // subtasks referenced by methods) and fail fast with a precise error if
+  // any task name is not registered.  This replaces the old goal-only check
+  // and ensures UNKNOWN_TASK is reported even for deeply nested subtasks.
+  const unknownTask = findFirstUnknownTask(goals, domain);
+  if (unknownTask !== null) {
+    result = {
+      success: false,
+      reason: "UNKNOWN_TASK",
+      failedTask: unknownTask,
+      stats: {
+        expansions: 0,
+        methodTries: 0,
+        backtracks: 0,
+        operatorApplications: 0,
+        maxSearchDepth: 0,
+        elapsedMs: 0,
+      },
+    };
+  } else {
+    const names = Object.keys(domain.resources ?? {});
+    const goalOrder =
+      config.goalOrdering === undefined
+        ? null
+        : orderTasks(goals.length, config.goalOrdering, "goalOrdering");
+    ctx = {
+      domain,
+      hooks: config.hooks,
+      optimal: config.strategy === "optimal",
+      maxDepth: config.maxDepth ?? DEFAULT_MAX_DEPTH,
+      maxTailCalls: config.maxTailCalls ?? DEFAULT_MAX_TAIL_CALLS,
+      freezeStates: config.freezeStates === true,
+      stateHash: config.stateHash ?? null,
+      cycle: null,
+      expanded: config.stateHash === undefined ? null : new Map(),
+      rootPrecedence: goalOrder?.precedence ?? null,
+      exhausted: config.memoize === true ? new WeakMap() : null,
+      memoHits: 0,
+      memoMisses: 0,
+      maxExpansions: config.maxExpansions ?? Infinity,
+      timeoutMs: config.timeoutMs ?? Infinity,
+      deadline: config.deadline ?? Infinity,
+      goalWindows: config.goalWindows ?? null,
+      goals,
+      goalCondition: config.goalCondition ?? null,
+      goalPostconditions: config.goalPostconditions ?? null,
+      resources:
+        names.length === 0
+          ? null
+          : {
+              names,
+              resources: names.map((name) => domain.resources![name]),
+              needs: resourceNeeds(domain),
+              remaining: new WeakMap(),
+            },
+      elapsedMs: 0,
+      expansions: 0,
+      methodTries: 0,
+      backtracks: 0,
+      operatorApplications: 0,
+      deepest: 0,
+      interrupted: null,
+      cursor: {
+        agenda: prepend(goals, ROOT, null, null, goalOrder?.order, goalOrder?.loose),
+        state: config.freezeStates === true ? deepFreeze(initialState) : initialState,
+        cost: 0,
+        time: config.startTime ?? 0,
+        depth: 0,
+        ordered: false,
+        asleep: NONE_ASLEEP,
+      },
+      choices: [],
+      solution: null,
+      best: null,
+      plan: [],
+      states: config.recordStates === true ? [] : null,
+      decisions: [],
+      deepestFailure: null,
+      failedBranches: config.debug === true ? [] : null,
+    };
   }
 
-  // ── Unknown task ─────────────────────────────────────────────────────────
-  return null;
+  /**
+   * Continues the search until it finishes or the slice is used up.
+   *
+   * @returns The final {@link PlanningResult} once planning has finished,
+   *          or `null` while the search is paused.
+   */
+  function step(slice: PlanningSlice = {}): PlanningResult<TState> | null {
+    if (result !== null || ctx === null) return result;
+
+    const startedAt = Date.now();
+    const limits: SliceLimits = {
+      expansions: ctx.expansions + (slice.maxExpansions ?? Infinity),
+      deadline: startedAt + (slice.timeoutMs ?? Infinity),
+    };
+    try {
+      if (!solve(ctx, limits, startedAt)) return null;
+    } finally {
+      ctx.elapsedMs += Date.now() - startedAt;
+    }
+    result = finish(ctx, goals);
+    return result;
+  }
+
+  return {
+    step,
+
+    /** Continues the search until planning has finished. */
+    run(): PlanningResult<TState> {
+      let outcome = step();
+      while (outcome === null) {
+        outcome = step();
+      }
+      return outcome;
+    },
+
+    /** The final result, or `null` while planning is still in progress. */
+    get result(): PlanningResult<TState> | null {
+      return result;
+    },
+
+    /** Tasks processed so far, across all slices. */
+    get expansions(): number {
+      return ctx?.expansions ?? 0;
+    },
+  };
 }
 
 /**
@@ -159,60 +1580,29 @@ export function createPlanner<TState>(config: PlannerConfig<TState>) {
      * execution plan or a failure descriptor.
      */
     plan(): PlanningResult<TState> {
-      const { domain, initialState, goals } = config;
-
-      // Pre-validate: walk every task reachable from the goals (including all
-      // subtasks referenced by methods) and fail fast with a precise error if
-      // any task name is not registered.  This replaces the old goal-only check
-      // and ensures UNKNOWN_TASK is reported even for deeply nested subtasks.
-      const unknownTask = findFirstUnknownTask(goals, domain);
-      if (unknownTask !== null) {
-        return {
-          success: false,
-          reason: "UNKNOWN_TASK",
-          failedTask: unknownTask,
-        };
-      }
-
-      const result = solve([...goals], initialState, domain, [], 0, config.hooks);
-
-      if (result === null) {
-        // Determine the best failure reason by inspecting goal tasks.
-        // For a precise per-task reason we do a lightweight single-pass check.
-        for (const goal of goals) {
-          if (hasOwnTask(domain.operators as Record<string, unknown>, goal)) {
-            const op = domain.operators[goal];
-            if (!op.condition(initialState)) {
-              return {
-                success: false,
-                reason: "OPERATOR_PRECONDITION_FAILED",
-                failedTask: goal,
-              };
-            }
-          }
-          if (hasOwnTask(domain.compoundTasks as Record<string, unknown>, goal)) {
-            const compound = domain.compoundTasks[goal];
-            const anyApplicable = compound.methods.some((m) =>
-              m.condition(initialState)
-            );
-            if (!anyApplicable) {
-              return {
-                success: false,
-                reason: "NO_APPLICABLE_METHOD",
-                failedTask: goal,
-              };
-            }
-          }
-        }
-        // Generic failure (e.g. a sub-task precondition failed deep in the tree).
-        return {
-          success: false,
-          reason: "NO_APPLICABLE_METHOD",
-          failedTask: goals[0] ?? "(unknown)",
-        };
-      }
+      return startPlanning(config).run();
+    },
 
-      return { success: true, plan: result.plan };
+    /**
+     * Starts a search that is carried out in slices, e.g. a few milliseconds
+     * per game frame. Each `step(slice)` call continues where the previous
+     * one paused and returns the final {@link PlanningResult} once planning
+     * has finished, or `null` while work is left. `maxExpansions` and
+     * `timeoutMs` from the config bound the search as a whole (time spent
+     * paused does not count).
+     *
+     * @example
+     * ```ts
+     * const planning = createPlanner({ domain, initialState, goals }).planIncrementally();
+     *
+     * function onFrame() {
+     *   const result = planning.step({ timeoutMs: 2 });
+     *   if (result !== null) agent.follow(result);
+     * }
+     * ```
+     */
+    planIncrementally() {
+      return startPlanning(config);
     },
   };
 }
@@ -238,13 +1628,13 @@ export class Planner<TState> {
    *
    * @param state   The initial world state before planning begins.
    * @param domain  The domain describing all available tasks.
-   * @param tasks   Top-level goal task names (resolved left-to-right).
+   * @param tasks   Top-level goal task references (resolved left-to-right).
    * @returns       A {@link PlanningResult} with either a flat ordered plan or a failure descriptor.
    */
   resolve(
     state: TState,
     domain: Domain<TState>,
-    tasks: ReadonlyArray<string>
+    tasks: ReadonlyArray<TaskRef>
   ): PlanningResult<TState> {
     return createPlanner({ domain, initialState: state, goals: tasks }).plan();
   }
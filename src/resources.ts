@@ -0,0 +1,178 @@
+import type { Domain, Operator, Resource, ResourceAmount, ResourceUsage, TaskArgs } from "./types";
+import { taskName } from "./tasks";
+
+/** Looks up a resource an operator refers to. */
+function declaredResource<TState>(
+  domain: Domain<TState>,
+  operator: Operator<TState>,
+  name: string
+): Resource<TState> {
+  const { resources } = domain;
+  if (resources === undefined || !Object.prototype.hasOwnProperty.call(resources, name)) {
+    throw new TypeError(`Operator "${operator.name}" uses the undeclared resource "${name}".`);
+  }
+  return resources[name];
+}
+
+/** Evaluates an amount an operator consumes or produces, rejecting negative values. */
+function evaluateAmount<TState>(
+  operator: Operator<TState>,
+  name: string,
+  amount: ResourceAmount<TState>,
+  state: TState,
+  args: TaskArgs
+): number {
+  const value = typeof amount === "number" ? amount : amount(state, args);
+  if (!(value >= 0)) {
+    throw new RangeError(
+      `Operator "${operator.name}" has an invalid amount (${value}) of resource "${name}"; ` +
+        "amounts must be non-negative numbers."
+    );
+  }
+  return value;
+}
+
+/**
+ * Evaluates how much of each resource `operator` consumes and produces when
+ * applied in `state`.
+ *
+ * @returns The usage of every resource the operator declares, or `null`
+ *          when it declares neither `consumes` nor `produces`.
+ * @throws {TypeError} when the operator uses a resource the domain does not
+ *         declare.
+ * @throws {RangeError} when an amount is negative or not a number.
+ */
+export function resourceUsage<TState>(
+  domain: Domain<TState>,
+  operator: Operator<TState>,
+  state: TState,
+  args: TaskArgs
+): Record<string, ResourceUsage> | null {
+  const { consumes, produces } = operator;
+  if (consumes === undefined && produces === undefined) return null;
+
+  const usage: Record<string, ResourceUsage> = {};
+  const entry = (name: string): ResourceUsage => {
+    declaredResource(domain, operator, name);
+    return (usage[name] ??= { consumed: 0, produced: 0 });
+  };
+  for (const [name, amount] of Object.entries(consumes ?? {})) {
+    entry(name).consumed = evaluateAmount(operator, name, amount, state, args);
+  }
+  for (const [name, amount] of Object.entries(produces ?? {})) {
+    entry(name).produced = evaluateAmount(operator, name, amount, state, args);
+  }
+  return usage;
+}
+
+/**
+ * Returns the first resource that `usage` would take below its `min` or
+ * above its `max`, starting from the amounts held in `state`, or `null`
+ * when every resource stays within its bounds.
+ */
+export function exceededResource<TState>(
+  domain: Domain<TState>,
+  state: TState,
+  usage: Readonly<Record<string, ResourceUsage>>
+): string | null {
+  for (const [name, { consumed, produced }] of Object.entries(usage)) {
+    const { get, min = 0, max = Infinity } = domain.resources![name];
+    const amount = get(state) - consumed + produced;
+    if (amount < min || amount > max) return name;
+  }
+  return null;
+}
+
+/** Applies `usage` to the state an operator's effect returned. */
+export function applyResourceUsage<TState>(
+  domain: Domain<TState>,
+  state: TState,
+  usage: Readonly<Record<string, ResourceUsage>>
+): TState {
+  let next = state;
+  for (const [name, { consumed, produced }] of Object.entries(usage)) {
+    if (consumed === produced) continue;
+    const { get, set } = domain.resources![name];
+    next = set(next, get(next) - consumed + produced);
+  }
+  return next;
+}
+
+/** Returns the amount of resource `name` in `amounts`, if declared. */
+function ownAmount<TState>(
+  amounts: Readonly<Record<string, ResourceAmount<TState>>> | undefined,
+  name: string
+): ResourceAmount<TState> | undefined {
+  return amounts !== undefined && Object.prototype.hasOwnProperty.call(amounts, name)
+    ? amounts[name]
+    : undefined;
+}
+
+/**
+ * Adds two lower bounds of {@link resourceNeeds}. A task that can never be
+ * completed makes the sum `Infinity`, even next to one with no lower bound.
+ */
+export function addNeeds(a: ReadonlyArray<number>, b: ReadonlyArray<number>): number[] {
+  return a.map((value, i) => (value === Infinity || b[i] === Infinity ? Infinity : value + b[i]));
+}
+
+/**
+ * Computes, for every task of the domain, a lower bound on how much of each
+ * declared resource (in the order of `Object.keys(domain.resources)`) any
+ * complete decomposition of the task consumes, net of what it produces.
+ *
+ * The bounds hold whatever the state and arguments: an amount given by a
+ * function counts as nothing consumed and unlimited production, and so do
+ * subtasks computed at planning time. Recursion that can produce without
+ * limit yields `-Infinity`; a task that no decomposition can complete
+ * yields `Infinity`.
+ */
+export function resourceNeeds<TState>(domain: Domain<TState>): Map<string, number[]> {
+  const names = Object.keys(domain.resources ?? {});
+  const needs = new Map<string, number[]>();
+  const impossible = names.map(() => Infinity);
+  const unbounded = names.map(() => -Infinity);
+
+  for (const [task, operator] of Object.entries(domain.operators)) {
+    needs.set(
+      task,
+      names.map((name) => {
+        const consumed = ownAmount(operator.consumes, name);
+        const produced = ownAmount(operator.produces, name);
+        return (
+          (typeof consumed === "number" ? consumed : 0) -
+          (produced === undefined ? 0 : typeof produced === "number" ? produced : Infinity)
+        );
+      })
+    );
+  }
+
+  // Compound tasks start out impossible and are lowered to the cheapest of
+  // their methods until nothing changes. A bound that still drops after
+  // every task has had the chance to contribute comes from recursion that
+  // produces more than it consumes, so it has no limit.
+  const compounds = Object.entries(domain.compoundTasks);
+  for (const [task] of compounds) needs.set(task, [...impossible]);
+  for (let round = 0, changed = true; changed; round++) {
+    changed = false;
+    for (const [task, { methods }] of compounds) {
+      const need = needs.get(task)!;
+      for (const { subtasks } of methods) {
+        const total =
+          typeof subtasks === "function"
+            ? unbounded
+            : subtasks.reduce<number[]>(
+                (sum, ref) => addNeeds(sum, needs.get(taskName(ref)) ?? impossible),
+                names.map(() => 0)
+              );
+        total.forEach((value, i) => {
+          if (value < need[i]) {
+            need[i] = round > compounds.length ? -Infinity : value;
+            changed = true;
+          }
+        });
+      }
+    }
+  }
+  return needs;
+}
@@ -0,0 +1,72 @@
+import type { Method, TaskArgs, TaskRef } from "./types";
+
+/** Shared, frozen argument object for task references that carry no arguments. */
+export const NO_ARGS: TaskArgs = Object.freeze({});
+
+/** Returns the task name a {@link TaskRef} points at. */
+export function taskName(ref: TaskRef): string {
+  return typeof ref === "string" ? ref : ref.task;
+}
+
+/** Returns the arguments a {@link TaskRef} carries (`NO_ARGS` for bare names). */
+export function taskArgs(ref: TaskRef): TaskArgs {
+  return typeof ref === "string" ? NO_ARGS : ref.args ?? NO_ARGS;
+}
+
+/** Returns true when both argument objects hold the same keys with identical values. */
+export function sameArgs(a: TaskArgs, b: TaskArgs): boolean {
+  if (a === b) return true;
+  const keys = Object.keys(a);
+  if (keys.length !== Object.keys(b).length) return false;
+  return keys.every(
+    (key) => Object.prototype.hasOwnProperty.call(b, key) && Object.is(a[key], b[key])
+  );
+}
+
+/**
+ * Returns the subtask references a method produces, computing them from
+ * `state` and `args` when the method declares its subtasks as a function.
+ */
+export function methodSubtasks<TState>(
+  method: Method<TState>,
+  state: TState,
+  args: TaskArgs
+): ReadonlyArray<TaskRef> {
+  return typeof method.subtasks === "function" ? method.subtasks(state, args) : method.subtasks;
+}
+
+/** A method candidate: the arguments it runs with and the binding that produced them. */
+export interface MethodCandidate {
+  args: TaskArgs;
+  binding: TaskArgs | undefined;
+}
+
+/**
+ * Lazily yields every way `method` applies in `state` at `time`: one
+ * candidate per {@link Method.bindings} entry (merged over `args`) whose
+ * condition holds, or a single candidate with `args` for methods without
+ * bindings.
+ */
+export function* methodCandidates<TState>(
+  method: Method<TState>,
+  state: TState,
+  args: TaskArgs,
+  time: number
+): Generator<MethodCandidate> {
+  if (method.bindings === undefined) {
+    if (method.condition(state, args, time)) yield { args, binding: undefined };
+    return;
+  }
+  for (const binding of method.bindings(state, args)) {
+    const bound = { ...args, ...binding };
+    if (method.condition(state, bound, time)) yield { args: bound, binding };
+  }
+}
+
+/**
+ * Returns the statically declared subtask references of a method, or `null`
+ * when they are computed at planning time and cannot be inspected up front.
+ */
+export function staticSubtasks<TState>(method: Method<TState>): ReadonlyArray<TaskRef> | null {
+  return typeof method.subtasks === "function" ? null : method.subtasks;
+}
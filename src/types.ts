@@ -1,3 +1,5 @@
+import type { FactState } from "./facts";
+
 /**
  * Represents the world state at any point during planning.
  * TState is a generic parameter so users get full TypeScript type safety
@@ -5,6 +7,33 @@
  */
 export type State<TState> = TState;
 
+/**
+ * Arguments bound to a parameterized task, keyed by parameter name
+ * (e.g. `{ room: "Kitchen" }` for `MoveTo(Kitchen)`).
+ */
+export type TaskArgs = Readonly<Record<string, unknown>>;
+
+/**
+ * A reference to a task together with the arguments it is invoked with.
+ *
+ * @example
+ * ```ts
+ * const ref: TaskCall = { task: "MoveTo", args: { room: "Kitchen" } };
+ * ```
+ */
+export interface TaskCall {
+  /** Name of the operator or compound task being referenced. */
+  readonly task: string;
+  /** Arguments passed to the task's conditions, effects and methods. */
+  readonly args?: TaskArgs;
+}
+
+/**
+ * A reference to a task: either a bare task name (no arguments) or a
+ * {@link TaskCall} carrying arguments.
+ */
+export type TaskRef = string | TaskCall;
+
 /**
  * A Primitive Task (Operator) represents a directly executable action.
  *
@@ -15,21 +44,109 @@ export interface Operator<TState> {
   readonly name: string;
   /**
    * Precondition: returns true when the operator is applicable
-   * in the given state.
+   * in the given state with the given arguments.
    */
-  condition: (state: TState) => boolean;
+  condition: (state: TState, args: TaskArgs) => boolean;
   /**
    * Effect: returns a new (cloned & mutated) state that reflects
-   * the world after this operator has been applied.
+   * the world after this operator has been applied with `args`.
    * Must NOT mutate the original state in place.
    */
-  effect: (state: TState) => TState;
+  effect: (state: TState, args: TaskArgs) => TState;
+  /**
+   * Optional real-world action run by {@link createAsyncExecutor}.
+   * Unlike `effect`, which only *simulates* the operator during planning,
+   * `execute` performs it (an HTTP request, an LLM tool call, a robot move)
+   * and resolves with the observed state afterwards.
+   * Implementations should stop work when `signal` is aborted.
+   */
+  execute?: (state: TState, signal: AbortSignal, args: TaskArgs) => Promise<TState>;
+  /**
+   * Optional time limit in milliseconds for `execute`. Overrides the
+   * executor-wide `timeoutMs`.
+   */
+  timeoutMs?: number;
+  /**
+   * Optional cost of applying this operator, either a constant or a function
+   * of the state it is applied in. Must be non-negative. Defaults to `1`,
+   * so the optimal strategy prefers the shortest plan.
+   */
+  cost?: number | ((state: TState, args: TaskArgs) => number);
+  /**
+   * Optional duration of applying this operator, in the unit of the
+   * planner's clock (see {@link PlannerConfig.startTime}), either a constant
+   * or a function of the state it is applied in. Must be non-negative.
+   * Defaults to `0`, so operators without one take no time.
+   */
+  duration?: number | ((state: TState, args: TaskArgs) => number);
+  /**
+   * Optional keys of the parts of the state this operator reads, in its
+   * `condition` or its `effect`, either a constant list or a function of its
+   * arguments (e.g. `` (args) => [`arm.${args.arm}`] ``). Keys are free-form
+   * strings; two operators conflict when they share one. Only used by
+   * {@link buildPlanGraph} to find steps that may run in parallel. An
+   * operator that declares neither `reads` nor `writes` is treated as
+   * touching the whole state.
+   */
+  reads?: ReadonlyArray<string> | ((args: TaskArgs) => ReadonlyArray<string>);
+  /** Optional keys of the parts of the state this operator changes (see `reads`). */
+  writes?: ReadonlyArray<string> | ((args: TaskArgs) => ReadonlyArray<string>);
+  /**
+   * Optional amounts of declared resources (see {@link Domain.resources})
+   * this operator uses up, by resource name. The planner only applies the
+   * operator when every resource stays within its bounds, and updates the
+   * resources itself after `effect`, which should leave them alone.
+   */
+  consumes?: Readonly<Record<string, ResourceAmount<TState>>>;
+  /** Optional amounts of declared resources this operator adds (see `consumes`). */
+  produces?: Readonly<Record<string, ResourceAmount<TState>>>;
+}
+
+/**
+ * An amount of a resource, either a constant or a function of the state an
+ * operator is applied in. Must be non-negative.
+ *
+ * @template TState - The shape of the world state.
+ */
+export type ResourceAmount<TState> = number | ((state: TState, args: TaskArgs) => number);
+
+/**
+ * A numeric quantity kept in the state, such as a battery level, money or
+ * stock, that operators consume and produce (see {@link Operator.consumes}).
+ *
+ * @template TState - The shape of the world state.
+ *
+ * @example
+ * ```ts
+ * const battery: Resource<RobotState> = {
+ *   get: (s) => s.battery,
+ *   set: (s, amount) => ({ ...s, battery: amount }),
+ *   max: 100,
+ * };
+ * ```
+ */
+export interface Resource<TState> {
+  /** Reads the amount held in a state. */
+  get: (state: TState) => number;
+  /** Returns a copy of `state` holding `amount`. Must NOT mutate `state`. */
+  set: (state: TState, amount: number) => TState;
+  /** Lowest amount allowed after any step. Defaults to `0`. */
+  min?: number;
+  /** Highest amount allowed after any step. Unlimited by default. */
+  max?: number;
+}
+
+/** How much of a resource a step, or a whole plan, consumed and produced. */
+export interface ResourceUsage {
+  consumed: number;
+  produced: number;
 }
 
 /**
  * A single decomposition recipe for a Compound Task.
  * A method is applicable when its `condition` holds in the current state.
- * When applicable it provides an ordered list of sub-task names to pursue.
+ * When applicable it provides an ordered list of sub-task references to pursue.
+ * Both receive the arguments the compound task was invoked with.
  *
  * @template TState - The shape of the world state.
  */
@@ -38,15 +155,55 @@ export interface Method<TState> {
   readonly name: string;
   /**
    * Precondition: returns true when this decomposition is valid
-   * for the current state.
+   * for the current state and the compound task's arguments. `time` is the
+   * planner's simulated clock when the task is expanded (see
+   * {@link PlannerConfig.startTime}), e.g. to prefer another method after
+   * 18:00.
    */
-  condition: (state: TState) => boolean;
+  condition: (state: TState, args: TaskArgs, time: number) => boolean;
   /**
-   * Ordered list of sub-task names produced by this decomposition.
-   * Each name must resolve to either an Operator or another Compound Task
-   * registered in the domain.
+   * Ordered list of sub-task references produced by this decomposition
+   * (see also {@link Method.ordering}), or a function computing that list
+   * from the current state and the compound task's arguments (e.g. to
+   * forward a bound parameter).
+   * Each reference must resolve to either an Operator or another Compound
+   * Task registered in the domain.
+   */
+  subtasks:
+    | ReadonlyArray<TaskRef>
+    | ((state: TState, args: TaskArgs) => ReadonlyArray<TaskRef>);
+  /**
+   * Optional enumeration of candidate variable bindings (SHOP-style
+   * unification over state), e.g. "every charger that is currently free".
+   * Each yielded binding is merged over the compound task's arguments and
+   * tried in order — `condition`, then `subtasks` — and the planner
+   * backtracks to the next binding before moving on to the next method.
+   * Generators are consumed lazily, one binding per backtrack.
+   *
+   * @example
+   * ```ts
+   * bindings: function* (s) {
+   *   for (const charger of s.chargers) if (charger.free) yield { charger: charger.id };
+   * }
+   * ```
    */
-  subtasks: ReadonlyArray<string>;
+  bindings?: (state: TState, args: TaskArgs) => Iterable<TaskArgs>;
+  /**
+   * Ordering constraints between the subtasks, as pairs of positions in the
+   * subtask list: `[0, 2]` means the first subtask must be finished before
+   * the third is started. When omitted, the subtasks run in the order they
+   * are listed; with an array (even an empty one), only the listed
+   * constraints apply and the planner explores the other orders as needed,
+   * interleaving the subtasks with the tasks that follow the method.
+   *
+   * @example
+   * ```ts
+   * // Pick up A and B in either order, then deliver both.
+   * subtasks: ["PickUpA", "PickUpB", "Deliver"],
+   * ordering: [[0, 2], [1, 2]],
+   * ```
+   */
+  ordering?: ReadonlyArray<readonly [before: number, after: number]>;
 }
 
 /**
@@ -71,6 +228,8 @@ export interface CompoundTask<TState> {
 export interface Domain<TState> {
   operators: Record<string, Operator<TState>>;
   compoundTasks: Record<string, CompoundTask<TState>>;
+  /** Optional resources operators may consume and produce, by name. */
+  resources?: Record<string, Resource<TState>>;
 }
 
 /**
@@ -95,28 +254,45 @@ export interface PlannerHooks<TState> {
    * Called each time the planner dequeues a task for processing.
    *
    * @param taskName - The name of the task being expanded.
-   * @param depth    - Current recursion depth (0 = top-level).
+   * @param depth    - Search depth: tasks already processed on the current
+   *                   branch (0 = the first goal).
+   * @param args     - The arguments the task was invoked with.
    */
-  onTaskExpand?: (taskName: string, depth: number) => void;
+  onTaskExpand?: (taskName: string, depth: number, args: TaskArgs) => void;
 
   /**
-   * Called each time the planner attempts a decomposition method.
+   * Called each time the planner attempts a decomposition method
+   * (once per binding for methods that enumerate {@link Method.bindings}).
    *
    * @param taskName   - The compound task being decomposed.
    * @param methodName - The name of the method being tried.
-   * @param depth      - Current recursion depth.
+   * @param depth      - Search depth of the compound task.
+   * @param binding    - The binding being tried, or `undefined` for methods
+   *                     without `bindings`.
    */
-  onMethodTry?: (taskName: string, methodName: string, depth: number) => void;
+  onMethodTry?: (
+    taskName: string,
+    methodName: string,
+    depth: number,
+    binding: TaskArgs | undefined
+  ) => void;
 
   /**
    * Called when a method branch leads to a dead-end and the planner
-   * backtracks to try the next method.
+   * backtracks to try the next binding or method.
    *
    * @param taskName   - The compound task that triggered the backtrack.
    * @param methodName - The method that was abandoned.
-   * @param depth      - Current recursion depth.
+   * @param depth      - Search depth of the compound task.
+   * @param binding    - The abandoned binding, or `undefined` for methods
+   *                     without `bindings`.
    */
-  onBacktrack?: (taskName: string, methodName: string, depth: number) => void;
+  onBacktrack?: (
+    taskName: string,
+    methodName: string,
+    depth: number,
+    binding: TaskArgs | undefined
+  ) => void;
 
   /**
    * Called immediately after an operator's effect is applied to the
@@ -125,14 +301,37 @@ export interface PlannerHooks<TState> {
    * @param operatorName - The name of the operator that was applied.
    * @param stateBefore  - The world state before the effect was applied (read-only).
    * @param stateAfter   - The world state after the effect was applied (read-only).
+   * @param args         - The arguments the operator was applied with.
    */
   onOperatorApply?: (
     operatorName: string,
     stateBefore: Readonly<TState>,
-    stateAfter: Readonly<TState>
+    stateAfter: Readonly<TState>,
+    args: TaskArgs
   ) => void;
+
+  /**
+   * Called when a compound task is skipped because the same remaining tasks
+   * are already known to fail in an equivalent state (see
+   * {@link PlannerConfig.memoize}).
+   *
+   * @param taskName - The compound task that was skipped.
+   * @param depth    - Search depth of the compound task.
+   * @param args     - The arguments the task was invoked with.
+   */
+  onMemoHit?: (taskName: string, depth: number, args: TaskArgs) => void;
 }
 
+/**
+ * Search strategies supported by the planner.
+ *
+ * - `"first"`   — depth-first search in method-registration order; returns
+ *                 the first plan found (default).
+ * - `"optimal"` — explores every decomposition with branch-and-bound pruning
+ *                 and returns the plan with the lowest total operator cost.
+ */
+export type PlanningStrategy = "first" | "optimal";
+
 /**
  * Configuration options accepted by the planner.
  *
@@ -143,14 +342,133 @@ export interface PlannerConfig<TState> {
   domain: Domain<TState>;
   /** The initial world state before planning begins. */
   initialState: TState;
-  /** Top-level goal task names (resolved left-to-right). */
-  goals: ReadonlyArray<string>;
+  /** Top-level goal task references (resolved left-to-right). */
+  goals: ReadonlyArray<TaskRef>;
+  /**
+   * Ordering constraints between the goals, in the format of
+   * {@link Method.ordering}. When given, the goals are only ordered by these
+   * constraints and the planner may interleave them. By default goals are
+   * resolved left-to-right.
+   */
+  goalOrdering?: ReadonlyArray<readonly [before: number, after: number]>;
+  /**
+   * Condition the final state must satisfy in addition to the goals being
+   * carried out. A complete decomposition whose final state violates it is
+   * a dead end, and planning fails with `"GOAL_CONDITION_FAILED"` when
+   * every decomposition of the goals violates it.
+   */
+  goalCondition?: (finalState: TState) => boolean;
+  /**
+   * Postconditions of the goals, by position in `goals` (`undefined` for a
+   * goal without one). Each must hold in the state right after the last
+   * step of its goal; decompositions that leave it false are abandoned like
+   * those that violate {@link PlannerConfig.goalCondition}.
+   */
+  goalPostconditions?: ReadonlyArray<((state: TState) => boolean) | undefined>;
   /**
    * Optional observability hooks called during the DFS search.
    * Use these to trace planning decisions, collect metrics, or power
    * a visual debugger.
    */
   hooks?: PlannerHooks<TState>;
+  /** How to search the decomposition space. Defaults to `"first"`. */
+  strategy?: PlanningStrategy;
+  /**
+   * When true, the result includes the predicted state after every step in
+   * {@link PlanningSuccess.states}. Off by default to avoid holding one state
+   * per step in memory on large plans.
+   */
+  recordStates?: boolean;
+  /**
+   * When true, a failed result lists every dead end the search hit in
+   * {@link PlanningFailure.failedBranches}, not just the deepest one.
+   */
+  debug?: boolean;
+  /**
+   * Development guard: when true, the initial state and every state an
+   * effect returns are deep-frozen (plain objects and arrays), so a
+   * `condition` or `effect` that mutates its input state throws a
+   * `TypeError` (in strict-mode code) instead of silently corrupting
+   * backtracking. Note that this freezes the `initialState` object you
+   * pass in. Off by default.
+   */
+  freezeStates?: boolean;
+  /**
+   * Maximum number of compound tasks that may be nested inside each other
+   * (a goal counts as level 1) before the search is treated as a cyclic
+   * decomposition and stops with a `"MAX_DEPTH_EXCEEDED"` failure. A compound
+   * task left last among its parent's subtasks takes the parent's place
+   * instead, once an operator has been applied since, so tail recursion
+   * (`Loop → [Step, Loop]`) does not count towards this limit; see
+   * {@link PlannerConfig.maxTailCalls}. Defaults to `1000`.
+   */
+  maxDepth?: number;
+  /**
+   * Maximum number of tail calls that may follow each other (such as the
+   * rounds of `Loop → [Step, Loop]`) before the recursion is treated as
+   * endless and the search stops with a `"MAX_DEPTH_EXCEEDED"` failure.
+   * Defaults to `100000`.
+   */
+  maxTailCalls?: number;
+  /**
+   * Maps a state to a key that is equal (`===`) for equivalent states and
+   * distinct otherwise. When given, the planner prunes any branch that
+   * expands a compound task with the same arguments, in an equivalent
+   * state, as one of the task's own ancestors — a cycle that can never make
+   * progress — and reports `"CYCLE_DETECTED"` if no plan is found.
+   *
+   * @example
+   * ```ts
+   * stateHash: (s) => `${s.location}|${s.hasItem}`
+   * ```
+   */
+  stateHash?: (state: TState) => string | number;
+  /**
+   * When true, the planner remembers where a compound task's whole search
+   * space was exhausted without a plan — the same remaining tasks in a
+   * state with the same {@link PlannerConfig.stateHash} — and skips it when
+   * backtracking leads there again. Requires `stateHash`. Hits and misses
+   * are reported in the result's `stats` and through
+   * {@link PlannerHooks.onMemoHit}. Off by default.
+   */
+  memoize?: boolean;
+  /**
+   * Simulated clock when the plan starts, in the unit of
+   * {@link Operator.duration} (e.g. minutes since midnight). Each step
+   * advances it by its duration. Defaults to `0`.
+   */
+  startTime?: number;
+  /**
+   * Time by which every step must have ended. Branches that run past it are
+   * abandoned, and planning fails with `"DEADLINE_MISSED"` when no plan
+   * meets it.
+   */
+  deadline?: number;
+  /**
+   * Time windows for the goals, by position in `goals` (`undefined` for a
+   * goal without one). A goal is not started before its `earliest` time —
+   * the clock waits until then — and every step it decomposes into must end
+   * by its `latest` time, like a per-goal {@link PlannerConfig.deadline}.
+   */
+  goalWindows?: ReadonlyArray<TimeWindow | undefined>;
+  /**
+   * Maximum number of tasks the search may process (see
+   * {@link PlannerHooks.onTaskExpand}). When exceeded, planning stops with
+   * `"BUDGET_EXCEEDED"` instead of running on. Unlimited by default.
+   */
+  maxExpansions?: number;
+  /**
+   * Wall-clock budget for planning, in milliseconds (for incremental
+   * planning, the time spent inside `step()` calls). When it runs out,
+   * planning stops with `"BUDGET_EXCEEDED"`. Unlimited by default.
+   */
+  timeoutMs?: number;
+}
+
+/** When a goal may start and by when it has to be done (see {@link PlannerConfig.goalWindows}). */
+export interface TimeWindow {
+  earliest?: number;
+  latest?: number;
 }
 
 /**
@@ -161,22 +479,191 @@ export interface PlannerConfig<TState> {
  */
 export type Plan<TState> = ReadonlyArray<Operator<TState>>;
 
+/**
+ * One entry of a plan together with the arguments its operator is applied
+ * with.
+ *
+ * @template TState - The shape of the world state.
+ */
+export interface PlanStep<TState> {
+  operator: Operator<TState>;
+  args: TaskArgs;
+}
+
+/**
+ * A step of a found plan, with the simulated times at which it starts and
+ * ends (see {@link Operator.duration}).
+ *
+ * @template TState - The shape of the world state.
+ */
+export interface TimedPlanStep<TState> extends PlanStep<TState> {
+  start: number;
+  /** `start` plus the operator's duration. */
+  end: number;
+  /**
+   * How much of each resource the step consumed and produced. Only present
+   * for operators that declare `consumes` or `produces`.
+   */
+  resources?: Readonly<Record<string, ResourceUsage>>;
+}
+
+/**
+ * A leaf of the decomposition tree: an operator applied by the plan.
+ */
+export interface PrimitiveTaskNode {
+  kind: "primitive";
+  /** The operator's name. */
+  task: string;
+  /** The arguments the operator was applied with. */
+  args: TaskArgs;
+  /** Index of this operator in {@link PlanningSuccess.plan}. */
+  planIndex: number;
+}
+
+/**
+ * An inner node of the decomposition tree: a compound task together with the
+ * method (and binding) that decomposed it.
+ */
+export interface CompoundTaskNode {
+  kind: "compound";
+  /** The compound task's name. */
+  task: string;
+  /** The arguments the compound task was invoked with. */
+  args: TaskArgs;
+  /** Name of the method chosen to decompose the task. */
+  method: string;
+  /** The binding chosen for the method, for methods with `bindings`. */
+  binding?: TaskArgs;
+  /** The decomposed subtasks, in the order the plan carries them out. */
+  children: ReadonlyArray<TaskNode>;
+}
+
+/**
+ * A node of the decomposition tree (the HTN equivalent of a proof tree).
+ */
+export type TaskNode = PrimitiveTaskNode | CompoundTaskNode;
+
 /**
  * Reason codes returned when planning fails.
  */
 export type PlanningFailureReason =
   | "NO_APPLICABLE_METHOD"
   | "OPERATOR_PRECONDITION_FAILED"
-  | "UNKNOWN_TASK";
+  | "UNKNOWN_TASK"
+  | "BUDGET_EXCEEDED"
+  | "MAX_DEPTH_EXCEEDED"
+  | "CYCLE_DETECTED"
+  | "DEADLINE_MISSED"
+  | "RESOURCE_BOUNDS_EXCEEDED"
+  | "GOAL_CONDITION_FAILED";
+
+/**
+ * How much work a single `step()` of an incremental search may do before it
+ * pauses. Both limits are optional; without either the step runs until
+ * planning has finished.
+ */
+export interface PlanningSlice {
+  /** Maximum number of tasks to process in this step. */
+  maxExpansions?: number;
+  /** Maximum time to spend in this step, in milliseconds. */
+  timeoutMs?: number;
+}
+
+/** How much work a search did. */
+export interface PlanningStats {
+  /** Tasks processed (operators and compound tasks alike). */
+  expansions: number;
+  /** Methods (or method bindings) tried, as reported to {@link PlannerHooks.onMethodTry}. */
+  methodTries: number;
+  /** Method branches abandoned, as reported to {@link PlannerHooks.onBacktrack}. */
+  backtracks: number;
+  /** Operator effects applied while searching, including on abandoned branches. */
+  operatorApplications: number;
+  /**
+   * Deepest search depth reached, in the sense of {@link PlannerHooks.onTaskExpand}
+   * (not the nesting of compound tasks that {@link PlannerConfig.maxDepth} limits).
+   */
+  maxSearchDepth: number;
+  /** Wall-clock time spent planning, in milliseconds. */
+  elapsedMs: number;
+  /** Compound expansions skipped as known failures (with {@link PlannerConfig.memoize}). */
+  memoHits?: number;
+  /** Compound expansions not found among the known failures (with `memoize`). */
+  memoMisses?: number;
+}
+
+/**
+ * A dead end the planner ran into during search.
+ *
+ * @template TState - The shape of the world state.
+ */
+export interface FailedBranch<TState> {
+  /** Why this branch failed. */
+  reason: PlanningFailureReason;
+  /** The task that could not be carried out. */
+  task: string;
+  /** The arguments the failed task was invoked with. */
+  args: TaskArgs;
+  /** Task names from the top-level goal down to (and including) `task`. */
+  taskPath: ReadonlyArray<string>;
+  /**
+   * The method being tried when the failure occurred (the one that produced
+   * `task` as a subtask), or `undefined` when `task` is a top-level goal.
+   */
+  method?: string;
+  /** The operator whose precondition failed, for `"OPERATOR_PRECONDITION_FAILED"`. */
+  operator?: string;
+  /**
+   * For `"CYCLE_DETECTED"`: the task chain from the ancestor that was
+   * re-expanded down to (and including) its repetition, e.g. `["A", "B", "A"]`.
+   */
+  cycle?: ReadonlyArray<string>;
+  /**
+   * For `"RESOURCE_BOUNDS_EXCEEDED"`: the resource that would have left its
+   * bounds.
+   */
+  resource?: string;
+  /**
+   * For `"GOAL_CONDITION_FAILED"`: the position in `goals` of the goal whose
+   * postcondition did not hold. Absent when the failed condition is
+   * {@link PlannerConfig.goalCondition}, whose `task` is `"(goal condition)"`.
+   */
+  goal?: number;
+  /** The simulated world state at the point of failure. */
+  state: TState;
+  /** Search depth at which the failure occurred (as reported to hooks). */
+  depth: number;
+}
 
 /**
  * Returned by the planner when no valid plan can be found.
+ *
+ * @template TState - The shape of the world state.
  */
-export interface PlanningFailure {
+export interface PlanningFailure<TState = unknown> {
   success: false;
   reason: PlanningFailureReason;
   /** The task name that could not be resolved. */
   failedTask: string;
+  /**
+   * The deepest dead end encountered during search; `reason` and
+   * `failedTask` are taken from it unless a cycle was pruned (which is
+   * reported as `"CYCLE_DETECTED"` instead). Absent when planning failed
+   * before searching (e.g. an unknown task found by pre-validation).
+   */
+  deepestFailure?: FailedBranch<TState>;
+  /**
+   * Every dead end encountered during search, in the order they were hit.
+   * Only present when {@link PlannerConfig.debug} is enabled.
+   */
+  failedBranches?: ReadonlyArray<FailedBranch<TState>>;
+  /**
+   * For `"CYCLE_DETECTED"`: the first cycle the search pruned (see
+   * {@link FailedBranch.cycle}).
+   */
+  cycle?: ReadonlyArray<string>;
+  /** How much work the search did before it gave up (or was stopped). */
+  stats: PlanningStats;
 }
 
 /**
@@ -187,6 +674,36 @@ export interface PlanningFailure {
 export interface PlanningSuccess<TState> {
   success: true;
   plan: Plan<TState>;
+  /**
+   * The same operators as `plan`, each paired with its bound arguments and
+   * the times it starts and ends.
+   */
+  steps: ReadonlyArray<TimedPlanStep<TState>>;
+  /** Sum of the costs of every operator in the plan. */
+  cost: number;
+  /** Simulated clock once the whole plan has been carried out. */
+  endTime: number;
+  /**
+   * How much of each declared resource the whole plan consumed and
+   * produced. Only present when the domain declares resources.
+   */
+  resources?: Readonly<Record<string, ResourceUsage>>;
+  /** The predicted world state after the whole plan has been applied. */
+  finalState: TState;
+  /**
+   * The predicted state after each step, aligned with `plan`
+   * (`states[i]` is the state after `plan[i]`). Only present when
+   * {@link PlannerConfig.recordStates} is enabled.
+   */
+  states?: ReadonlyArray<TState>;
+  /**
+   * The full decomposition behind `plan`: one root node per goal, each
+   * compound task with the method chosen and its children in order, and
+   * each operator with its index into `plan`.
+   */
+  tree: ReadonlyArray<TaskNode>;
+  /** How much work the search did to find the plan. */
+  stats: PlanningStats;
 }
 
 /**
@@ -194,4 +711,512 @@ export interface PlanningSuccess<TState> {
  *
  * @template TState - The shape of the world state.
  */
-export type PlanningResult<TState> = PlanningSuccess<TState> | PlanningFailure;
+export type PlanningResult<TState> = PlanningSuccess<TState> | PlanningFailure<TState>;
+
+/**
+ * A user-supplied callback that performs the real-world action behind an
+ * Operator (e.g. moving an actuator or triggering an animation).
+ * Return `false` to report that the action failed; any other return value
+ * is treated as success.
+ *
+ * @template TState - The shape of the world state.
+ */
+export type ActionCallback<TState> = (
+  state: Readonly<TState>,
+  args: TaskArgs
+) => boolean | void;
+
+/**
+ * Reason codes passed to {@link ExecutorHooks.onReplan} explaining why the
+ * executor abandoned the current plan.
+ */
+export type ReplanReason =
+  | "PRECONDITION_FAILED"
+  | "ACTION_FAILED"
+  | "TIMEOUT"
+  | "STATE_DIVERGED";
+
+/**
+ * Optional callback hooks for observing plan execution.
+ *
+ * @template TState - The shape of the world state.
+ */
+export interface ExecutorHooks<TState> {
+  /**
+   * Called right before an operator's precondition is re-checked against
+   * the observed state.
+   *
+   * @param operatorName - The operator about to run.
+   * @param state        - The observed world state (read-only).
+   */
+  onStepStart?: (operatorName: string, state: Readonly<TState>) => void;
+
+  /**
+   * Called after an operator's action has run and the world has been
+   * observed again.
+   *
+   * @param operatorName - The operator that ran.
+   * @param predicted    - The state predicted by the operator's `effect`.
+   * @param observed     - The state reported by `perceive` after the action.
+   */
+  onStepComplete?: (
+    operatorName: string,
+    predicted: Readonly<TState>,
+    observed: Readonly<TState>
+  ) => void;
+
+  /**
+   * Called when the executor abandons the current plan and asks the
+   * planner for a new one from the observed state.
+   *
+   * @param reason       - Why the current plan was abandoned.
+   * @param operatorName - The operator that triggered the replan.
+   * @param state        - The observed state the new plan starts from.
+   */
+  onReplan?: (
+    reason: ReplanReason,
+    operatorName: string,
+    state: Readonly<TState>
+  ) => void;
+}
+
+/**
+ * Configuration options accepted by {@link createExecutor}.
+ *
+ * @template TState - The shape of the world state.
+ */
+export interface ExecutorConfig<TState> {
+  /** The domain used for (re)planning. */
+  domain: Domain<TState>;
+  /** Top-level goal task references, replanned from scratch on divergence. */
+  goals: ReadonlyArray<TaskRef>;
+  /**
+   * An already computed plan to start with. When omitted, the executor
+   * plans from the first perceived state. Pass `PlanningSuccess.steps` to
+   * keep the operators' bound arguments.
+   */
+  plan?: Plan<TState> | ReadonlyArray<PlanStep<TState>>;
+  /** Returns the current, observed state of the real world. */
+  perceive: () => TState;
+  /**
+   * Real-world actions keyed by operator name. Operators without an entry
+   * are treated as bookkeeping steps that always succeed.
+   */
+  actions?: Record<string, ActionCallback<TState>>;
+  /**
+   * Decides whether the observed state after a step matches the predicted
+   * one. Defaults to a structural deep-equality check.
+   */
+  isStateEqual?: (predicted: Readonly<TState>, observed: Readonly<TState>) => boolean;
+  /** Maximum number of replans before execution gives up (default `10`). */
+  maxReplans?: number;
+  /**
+   * Options for every planning run, e.g. `goalCondition`, `stateHash` or a
+   * budget. The executor supplies the domain, the goals and the state.
+   */
+  planner?: Omit<PlannerConfig<TState>, "domain" | "initialState" | "goals">;
+  /** Optional observability hooks called during execution. */
+  hooks?: ExecutorHooks<TState>;
+}
+
+/**
+ * Configuration options accepted by {@link createAsyncExecutor}.
+ *
+ * @template TState - The shape of the world state.
+ */
+export interface AsyncExecutorConfig<TState> {
+  /** The domain used for (re)planning. */
+  domain: Domain<TState>;
+  /** Top-level goal task references, replanned from scratch on divergence. */
+  goals: ReadonlyArray<TaskRef>;
+  /**
+   * An already computed plan to start with. When omitted, the executor
+   * plans from `initialState`. Pass `PlanningSuccess.steps` to keep the
+   * operators' bound arguments.
+   */
+  plan?: Plan<TState> | ReadonlyArray<PlanStep<TState>>;
+  /** The world state before execution begins. */
+  initialState: TState;
+  /**
+   * Optional observation of the real world, awaited before every step.
+   * When omitted, the state resolved by the previous `execute` is used.
+   */
+  perceive?: () => TState | Promise<TState>;
+  /** Aborts execution; the in-flight `execute` call receives the abort too. */
+  signal?: AbortSignal;
+  /**
+   * Default time limit in milliseconds for each `execute` call.
+   * A timed-out step is treated as a failed step and triggers a replan.
+   */
+  timeoutMs?: number;
+  /**
+   * Decides whether the observed state after a step matches the predicted
+   * one. Defaults to a structural deep-equality check.
+   */
+  isStateEqual?: (predicted: Readonly<TState>, observed: Readonly<TState>) => boolean;
+  /** Maximum number of replans before execution gives up (default `10`). */
+  maxReplans?: number;
+  /**
+   * Options for every planning run, e.g. `goalCondition`, `stateHash` or a
+   * budget. The executor supplies the domain, the goals and the state.
+   */
+  planner?: Omit<PlannerConfig<TState>, "domain" | "initialState" | "goals">;
+  /** Optional observability hooks called during execution. */
+  hooks?: ExecutorHooks<TState>;
+}
+
+/**
+ * Record of a single operator that the executor ran.
+ *
+ * @template TState - The shape of the world state.
+ */
+export interface ExecutedStep<TState> {
+  operator: Operator<TState>;
+  /** The arguments the operator was run with. */
+  args: TaskArgs;
+  /** The observed state the operator was run from. */
+  stateBefore: TState;
+  /** The state the operator's `effect` predicted. */
+  predictedState: TState;
+  /** The state observed after the operator's action ran. */
+  observedState: TState;
+  /** Whether `observedState` differed from `predictedState`. */
+  diverged: boolean;
+}
+
+/**
+ * Reason codes returned when execution fails.
+ */
+export type ExecutionFailureReason =
+  | "PLANNING_FAILED"
+  | "MAX_REPLANS_EXCEEDED"
+  | "ABORTED";
+
+/**
+ * Returned by the executor when every goal has been carried out.
+ *
+ * @template TState - The shape of the world state.
+ */
+export interface ExecutionSuccess<TState> {
+  success: true;
+  /** Every operator that ran, in order, across all replans. */
+  steps: ReadonlyArray<ExecutedStep<TState>>;
+  /** Number of times the executor replanned. */
+  replans: number;
+  /** The last observed world state. */
+  finalState: TState;
+}
+
+/**
+ * Returned by the executor when the goals could not be carried out.
+ *
+ * @template TState - The shape of the world state.
+ */
+export interface ExecutionFailure<TState> {
+  success: false;
+  reason: ExecutionFailureReason;
+  /** Every operator that ran, in order, before execution stopped. */
+  steps: ReadonlyArray<ExecutedStep<TState>>;
+  /** Number of times the executor replanned. */
+  replans: number;
+  /** The last observed world state. */
+  finalState: TState;
+  /** The planner's failure descriptor when `reason` is `"PLANNING_FAILED"`. */
+  planningFailure?: PlanningFailure<TState>;
+}
+
+/**
+ * Union result type returned by `createExecutor().run()` and
+ * `createAsyncExecutor().run()`.
+ *
+ * @template TState - The shape of the world state.
+ */
+export type ExecutionResult<TState> = ExecutionSuccess<TState> | ExecutionFailure<TState>;
+
+/**
+ * A subtask (or goal) reference to a task that is neither an operator nor a
+ * compound task of the domain.
+ */
+export interface UnresolvedReference {
+  /** The compound task whose method holds the reference; absent for goals. */
+  task?: string;
+  /** The method holding the reference; absent for goals. */
+  method?: string;
+  /** The unresolved task name. */
+  subtask: string;
+  /** Position of the reference in the method's subtask list (or the goal list). */
+  index: number;
+}
+
+/**
+ * One unresolved subtask reference found by {@link Domain.validate}.
+ */
+export interface DomainValidationIssue {
+  /** The compound task whose method holds the bad reference. */
+  task: string;
+  /** The method holding the bad reference. */
+  method: string;
+  /** The unresolved task name. */
+  subtask: string;
+  /** Position of the reference in the method's `subtasks`. */
+  index: number;
+  /** Registered task names similar to `subtask`, closest first. */
+  suggestions: ReadonlyArray<string>;
+}
+
+/** Identifies one method of a compound task. */
+export interface MethodLocation {
+  task: string;
+  method: string;
+}
+
+/**
+ * A method name used more than once in the domain, whether by several
+ * compound tasks or repeatedly by the same one.
+ */
+export interface DuplicateMethodName {
+  method: string;
+  /**
+   * Every declaration of a method with this name: the compound task and the
+   * position of the method in its list of methods.
+   */
+  locations: ReadonlyArray<{ task: string; index: number }>;
+}
+
+/**
+ * Structural report on a domain, produced by {@link Domain.analyze} /
+ * `analyzeDomain`. Only statically declared subtask lists are inspected;
+ * methods that compute their subtasks are listed in `computedSubtasks`.
+ */
+export interface DomainAnalysis {
+  /** Every reference to an unregistered task. */
+  unresolvedReferences: ReadonlyArray<UnresolvedReference>;
+  /**
+   * Compound tasks that can decompose (directly or through other compound
+   * tasks) into themselves, each as a path that starts and ends with the
+   * same task, e.g. `["A", "B", "A"]`. Recursion is not an error in itself
+   * but must change the state to terminate.
+   */
+  cycles: ReadonlyArray<ReadonlyArray<string>>;
+  /** Operators no goal can reach. Empty when no goals were given. */
+  unreachableOperators: ReadonlyArray<string>;
+  /** Compound tasks no goal can reach. Empty when no goals were given. */
+  unreachableTasks: ReadonlyArray<string>;
+  /** Compound tasks without any method (they can never be decomposed). */
+  tasksWithoutMethods: ReadonlyArray<string>;
+  /** Method names declared more than once. */
+  duplicateMethodNames: ReadonlyArray<DuplicateMethodName>;
+  /** Methods with an empty subtask list. */
+  emptyMethods: ReadonlyArray<MethodLocation>;
+  /** Methods whose subtasks are computed at planning time and were not inspected. */
+  computedSubtasks: ReadonlyArray<MethodLocation>;
+}
+
+/**
+ * A value in the declarative domain language, evaluated against the state
+ * and the task arguments:
+ *
+ * - a JSON literal (`1`, `"Kitchen"`, `true`, `null`);
+ * - `{ "var": "robot.location" }` — a dot-separated path into the state;
+ * - `{ "arg": "room" }` — a task argument;
+ * - `{ "==": [a, b] }`, and likewise `"!="`, `"<"`, `"<="`, `">"`, `">="`;
+ * - `{ "and": [...] }`, `{ "or": [...] }`, `{ "not": a }`.
+ */
+export type Expression =
+  | string
+  | number
+  | boolean
+  | null
+  | { var: string }
+  | { arg: string }
+  | { "==": [Expression, Expression] }
+  | { "!=": [Expression, Expression] }
+  | { "<": [Expression, Expression] }
+  | { "<=": [Expression, Expression] }
+  | { ">": [Expression, Expression] }
+  | { ">=": [Expression, Expression] }
+  | { and: Expression[] }
+  | { or: Expression[] }
+  | { not: Expression };
+
+/**
+ * One change a declarative operator makes to the state: assign a value to
+ * a state path, or add `by` (default `1`) to the number stored there.
+ */
+export type EffectDefinition =
+  | { set: string; value: Expression }
+  | { increment: string; by?: Expression };
+
+/** A declarative operator. Its name is its key in {@link DomainDefinition.operators}. */
+export interface OperatorDefinition {
+  /** Precondition; the operator is always applicable when omitted. */
+  condition?: Expression;
+  /**
+   * Changes applied in order. Every value is evaluated against the state
+   * before the operator, as in PDDL.
+   */
+  effect?: EffectDefinition[];
+  /** Constant cost or an expression evaluating to one. */
+  cost?: Expression;
+}
+
+/** A subtask reference in a declarative method; `args` values are expressions. */
+export type SubtaskDefinition = string | { task: string; args?: Record<string, Expression> };
+
+/** A declarative decomposition method. */
+export interface MethodDefinition {
+  name: string;
+  /** Applicability condition; the method always applies when omitted. */
+  condition?: Expression;
+  subtasks: SubtaskDefinition[];
+}
+
+/** A declarative compound task. Its name is its key in {@link DomainDefinition.compoundTasks}. */
+export interface CompoundTaskDefinition {
+  methods: MethodDefinition[];
+}
+
+/**
+ * A serializable domain, loaded with `Domain.fromJSON()` and produced by
+ * `Domain.toDefinition()`. The state of a declarative domain is plain JSON data.
+ */
+export interface DomainDefinition {
+  operators: Record<string, OperatorDefinition>;
+  compoundTasks?: Record<string, CompoundTaskDefinition>;
+}
+
+/** One problem found while validating a {@link DomainDefinition}. */
+export interface SchemaIssue {
+  /** Location of the problem, e.g. `operators.Move.effect[0].set`. */
+  path: string;
+  message: string;
+}
+
+/**
+ * A fact: a predicate name followed by its arguments, e.g.
+ * `["at", "truck-0", "city-a"]`. In patterns, arguments starting with `?`
+ * are variables (`["at", "?vehicle", "city-a"]`).
+ */
+export type Fact = readonly [predicate: string, ...args: string[]];
+
+/** Facts to add and delete in one step (see {@link FactState.apply}). */
+export interface FactChanges {
+  add?: ReadonlyArray<Fact>;
+  delete?: ReadonlyArray<Fact>;
+}
+
+/**
+ * A STRIPS-style operator over a {@link FactState}, turned into an
+ * {@link Operator} by `stripsOperator()`. Variables in the facts (`?v`) are
+ * bound to the task argument of the same name (`args.v`).
+ */
+export interface StripsOperatorDefinition {
+  /** Operator name. */
+  name: string;
+  /** Facts that must all hold. */
+  precondition?: ReadonlyArray<Fact>;
+  /** Facts that must all be absent. */
+  absent?: ReadonlyArray<Fact>;
+  /** Facts the operator adds. */
+  add?: ReadonlyArray<Fact>;
+  /** Facts the operator deletes; deletes are applied before adds. */
+  delete?: ReadonlyArray<Fact>;
+  /** Cost of applying the operator (defaults to 1). */
+  cost?: number;
+}
+
+/** A planning problem imported from HDDL domain and problem files. */
+export interface HddlProblem {
+  /** Name given in `(define (domain …))`. */
+  domainName: string;
+  /** Name given in `(define (problem …))`. */
+  problemName: string;
+  /** Operators for the actions and methods for the compound tasks. */
+  domain: Domain<FactState>;
+  /** The facts of the problem's `:init` section. */
+  initialState: FactState;
+  /** The initial task network of the problem's `:htn` section, in order. */
+  goals: ReadonlyArray<TaskCall>;
+  /**
+   * Ordering constraints of a partially ordered initial task network, to
+   * pass on as {@link PlannerConfig.goalOrdering}. Absent when the network
+   * is totally ordered.
+   */
+  goalOrdering?: ReadonlyArray<readonly [before: number, after: number]>;
+  /**
+   * The problem's `:goal` formula, if it has one, to pass on as
+   * {@link PlannerConfig.goalCondition} so that only plans achieving it are
+   * returned.
+   */
+  goalCondition?: (state: FactState) => boolean;
+  /** Every object and constant, keyed by its declared type. */
+  objects: Readonly<Record<string, ReadonlyArray<string>>>;
+}
+
+/**
+ * An ordering constraint between two steps of a plan graph.
+ *
+ * - `"causal"` — `to` reads `key` as `from` left it (a causal link).
+ * - `"threat"` — `to` changes `key`, which `from` reads or changes, so
+ *                running `to` first would break `from` or its consumers.
+ */
+export interface PlanDependency {
+  /** Index of the step that has to finish first. */
+  from: number;
+  /** Index of the step that has to wait. */
+  to: number;
+  kind: "causal" | "threat";
+  /** The state key the steps share, or `"*"` when a step declares none. */
+  key: string;
+}
+
+/**
+ * A plan as a partial order: the steps of a sequential plan together with
+ * the dependencies that must be kept when running them in parallel. Any
+ * order of the steps that respects every dependency reaches the same state.
+ *
+ * @template TState - The shape of the world state.
+ */
+export interface PlanGraph<TState> {
+  /** The steps, in the order of the sequential plan. */
+  steps: ReadonlyArray<PlanStep<TState>>;
+  /** Every dependency, ordered by `to`. */
+  dependencies: ReadonlyArray<PlanDependency>;
+  /** For each step, the indices of the steps it directly depends on, ascending. */
+  predecessors: ReadonlyArray<ReadonlyArray<number>>;
+}
+
+/** Options accepted by {@link schedulePlan}. */
+export interface ScheduleOptions<TState> {
+  /**
+   * Duration of a step. Must be non-negative. By default a step takes as
+   * long as the planner simulated (`end - start` of a {@link TimedPlanStep}),
+   * else its operator's constant `duration`, else `1`.
+   */
+  duration?: (step: PlanStep<TState>) => number;
+}
+
+/**
+ * A step of a {@link PlanSchedule}, with its position in the sequential
+ * plan and the time it starts and ends.
+ *
+ * @template TState - The shape of the world state.
+ */
+export interface ScheduledStep<TState> extends PlanStep<TState> {
+  index: number;
+  start: number;
+  end: number;
+}
+
+/**
+ * The result of {@link schedulePlan}: every step started as soon as the
+ * steps it depends on have ended.
+ *
+ * @template TState - The shape of the world state.
+ */
+export interface PlanSchedule<TState> {
+  /** The scheduled steps, ordered by start time (ties in plan order). */
+  steps: ReadonlyArray<ScheduledStep<TState>>;
+  /** Time at which the last step ends (`0` for an empty plan). */
+  makespan: number;
+}